@@ -4,46 +4,75 @@ import replace from '@rollup/plugin-replace';
 import terser from '@rollup/plugin-terser';
 import pkg from './package.json';
 
-const input = './dist/index.js';
+const plugins = [
+  resolve(),
+  commonjs(),
+  replace({
+    __DEV__: 'false',
+    preventAssignment: true,
+  }),
+  terser(),
+];
 
-export default {
-  input,
-  output: [
-    {
-      format: 'cjs',
-      exports: 'named',
-      file: 'dist/index.cjs',
-      sourcemap: true,
-    },
-    {
-      format: 'es',
-      file: 'dist/index.esm.js',
-      sourcemap: true,
-    },
-    {
-      format: 'umd',
-      name: pkg.name
-        .split('-')
-        .map(([s, ...rest]) => [s.toUpperCase(), ...rest].join(''))
-        .join(''),
-      file: pkg.unpkg,
-      sourcemap: true,
-      globals: {
-        mutative: 'Mutative',
-        zustand: 'Zustand',
-        travels: 'Travels',
+const external = ['mutative', 'zustand', 'travels'];
+
+// Subpath entries are bundled on their own and only import peer packages
+const subpaths = [
+  { name: 'react', external: ['react'] },
+  { name: 'persist', external: ['zustand/middleware'] },
+  { name: 'testing', external: [] },
+];
+
+export default [
+  {
+    input: './dist/.tsc/index.js',
+    output: [
+      {
+        format: 'cjs',
+        exports: 'named',
+        file: 'dist/index.cjs',
+        sourcemap: true,
+      },
+      {
+        format: 'es',
+        file: 'dist/index.esm.js',
+        sourcemap: true,
+      },
+      {
+        format: 'umd',
+        name: pkg.name
+          .split('-')
+          .map(([s, ...rest]) => [s.toUpperCase(), ...rest].join(''))
+          .join(''),
+        file: pkg.unpkg,
+        sourcemap: true,
+        globals: {
+          mutative: 'Mutative',
+          zustand: 'Zustand',
+          travels: 'Travels',
+        },
+        exports: 'named',
+      },
+    ],
+    plugins,
+    external,
+  },
+  ...subpaths.map(({ name, external: subpathExternal }) => ({
+    input: `./dist/.tsc/${name}.js`,
+    output: [
+      {
+        format: 'cjs',
+        exports: 'named',
+        file: `dist/${name}.cjs`,
+        sourcemap: true,
+      },
+      {
+        format: 'es',
+        file: `dist/${name}.esm.js`,
+        sourcemap: true,
       },
-      exports: 'named',
-    },
-  ],
-  plugins: [
-    resolve(),
-    commonjs(),
-    replace({
-      __DEV__: 'false',
-      preventAssignment: true,
-    }),
-    terser(),
-  ],
-  external: ['mutative', 'zustand', 'travels'],
-};
+    ],
+    plugins,
+    external: [...external, ...subpathExternal],
+  })),
+];
@@ -0,0 +1,142 @@
+import { hasOwn, isPlainObject } from './utils';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+type Action = (...args: any[]) => unknown;
+
+/**
+ * Actions of the initial state below the top level, in the same shape as
+ * the state, e.g. `{ todos: { add } }`
+ */
+type ActionTree = { [key: string]: Action | ActionTree };
+
+export type NestedActions = {
+  /**
+   * Initial state without nested actions. Merging it returns the initial
+   * slices, actions included.
+   */
+  readonly initialState: Record<string, unknown>;
+  /**
+   * Remove nested actions from store data, so history holds data only
+   */
+  strip: <T>(data: T) => T;
+  /**
+   * Put nested actions back into data. Objects that hold actions are copied
+   * once per data object, so unchanged slices keep their reference.
+   */
+  merge: <T>(data: T) => T;
+};
+
+// ============================================================================
+// Nested Actions Implementation
+// ============================================================================
+
+// Collect the actions of plain objects at any depth. Arrays are data.
+const collect = (value: Record<string, unknown>): ActionTree | undefined => {
+  let tree: ActionTree | undefined;
+  for (const key of Object.keys(value)) {
+    const child = value[key];
+    const node =
+      typeof child === 'function'
+        ? (child as Action)
+        : isPlainObject(child)
+          ? collect(child)
+          : undefined;
+    if (node) (tree ??= {})[key] = node;
+  }
+  return tree;
+};
+
+const strip = <T>(data: T, tree: ActionTree): T => {
+  if (!isPlainObject(data)) return data;
+  let stripped = data as Record<string, unknown>;
+  for (const key of Object.keys(tree)) {
+    if (!hasOwn(data, key)) continue;
+    const node = tree[key];
+    const value = data[key];
+    if (typeof node === 'function') {
+      if (typeof value !== 'function') continue;
+      if (stripped === data) stripped = { ...data };
+      delete stripped[key];
+    } else {
+      const child = strip(value, node);
+      if (child === value) continue;
+      if (stripped === data) stripped = { ...data };
+      stripped[key] = child;
+    }
+  }
+  return stripped as T;
+};
+
+/**
+ * Find the actions nested in slices of the initial state, e.g.
+ * `{ todos: { items, add() } }`. Top-level actions are handled by the
+ * middleware. Returns `undefined` when there are none.
+ */
+export function createNestedActions(
+  initialState: Record<string, unknown>
+): NestedActions | undefined {
+  const tree: ActionTree = {};
+  for (const key of Object.keys(initialState)) {
+    const value = initialState[key];
+    const node = isPlainObject(value) ? collect(value) : undefined;
+    if (node) tree[key] = node;
+  }
+  if (!Object.keys(tree).length) return undefined;
+
+  // Merged copy of each data object, per tree node
+  const caches = new WeakMap<ActionTree, WeakMap<object, object>>();
+  const getCache = (node: ActionTree) => {
+    let cache = caches.get(node);
+    if (!cache) {
+      cache = new WeakMap();
+      caches.set(node, cache);
+    }
+    return cache;
+  };
+
+  const merge = <T>(data: T, node: ActionTree): T => {
+    if (!isPlainObject(data)) return data;
+    const cache = getCache(node);
+    const cached = cache.get(data);
+    if (cached) return cached as T;
+    let merged = data as Record<string, unknown>;
+    for (const key of Object.keys(node)) {
+      const child = node[key];
+      if (typeof child !== 'function' && !hasOwn(data, key)) continue;
+      const value =
+        typeof child === 'function' ? child : merge(data[key], child);
+      if (value === data[key] && hasOwn(data, key)) continue;
+      if (merged === data) merged = { ...data };
+      merged[key] = value;
+    }
+    // Data that already holds its actions is returned as is
+    if (merged !== data) cache.set(data, merged);
+    return merged as T;
+  };
+
+  // The initial slices are the merged copies of their stripped data
+  const remember = (original: unknown, data: unknown, node: ActionTree) => {
+    if (original === data || !isPlainObject(original) || !isPlainObject(data)) {
+      return;
+    }
+    getCache(node).set(data, original);
+    for (const key of Object.keys(node)) {
+      const child = node[key];
+      if (typeof child !== 'function') {
+        remember(original[key], data[key], child);
+      }
+    }
+  };
+
+  const initialData = strip(initialState, tree);
+  remember(initialState, initialData, tree);
+
+  return {
+    initialState: initialData,
+    strip: (data) => strip(data, tree),
+    merge: (data) => merge(data, tree),
+  };
+}
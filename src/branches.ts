@@ -0,0 +1,428 @@
+import type {
+  TravelMetadata,
+  TravelPatches,
+  Travels,
+  TravelsHistory,
+} from 'travels';
+import { isEqual } from './utils';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * A line of history in branching mode. The first branch starts at the
+ * initial state; every other one starts where an edit was made after undo.
+ */
+export type TravelBranch = {
+  readonly id: number;
+  /** Position the branch starts from */
+  readonly position: number;
+  /** Number of entries on the branch */
+  readonly length: number;
+  /** Whether the branch holds the current history */
+  readonly active: boolean;
+  /** Label of the branch's latest entry */
+  readonly label?: string;
+  /** When the branch's latest entry was recorded */
+  readonly timestamp?: number;
+};
+
+/**
+ * An entry in the history tree. The root is the initial state and has no
+ * metadata.
+ */
+export type TravelHistoryNode = {
+  readonly id: number;
+  /** Branch the entry belongs to */
+  readonly branch: number;
+  readonly position: number;
+  readonly label?: string;
+  readonly meta?: TravelMetadata;
+  readonly timestamp?: number;
+  /** Whether the entry is part of the current history */
+  readonly active: boolean;
+  /** Whether the entry is the current position */
+  readonly current: boolean;
+  readonly children: TravelHistoryNode[];
+};
+
+type Patches = TravelPatches['patches'][number];
+
+export type HistoryEntry = {
+  patches: Patches;
+  inversePatches: Patches;
+  metadata: TravelMetadata | undefined;
+};
+
+type HistoryNode = HistoryEntry & {
+  readonly id: number;
+  readonly branch: number;
+  parent: HistoryNode | undefined;
+  children: HistoryNode[];
+};
+
+export type BranchTree = {
+  /**
+   * Update the tree after a Travels event
+   */
+  sync: (
+    type: string,
+    position: number,
+    readEntries: () => HistoryEntry[]
+  ) => void;
+  /**
+   * Forget every branch and start over from the current history
+   */
+  load: (entries: HistoryEntry[], position: number) => void;
+  /**
+   * Drop the oldest entries outside the current history until at most
+   * `limit` entries remain
+   */
+  prune: (limit: number) => void;
+  /**
+   * Make the entry at `count` the new root, dropping everything that is not
+   * below it
+   */
+  trim: (count: number) => void;
+  /**
+   * Replace the current history's entries between positions `from` and
+   * `to` with `entry`. Branches that leave the history inside the range are
+   * dropped.
+   */
+  squash: (from: number, to: number, entry: HistoryEntry) => void;
+  /**
+   * Entries from the initial state to the branch's latest entry
+   */
+  resolve: (id: number) => HistoryEntry[] | undefined;
+  /**
+   * Make entries returned by `resolve` the current history, positioned at
+   * the last one
+   */
+  activate: (entries: HistoryEntry[]) => void;
+  /** Entries of the current history */
+  getEntries: () => HistoryEntry[];
+  getBranches: () => TravelBranch[];
+  getTree: () => TravelHistoryNode;
+};
+
+// ============================================================================
+// Branch Tree Implementation
+// ============================================================================
+
+const NON_COMMIT_EVENTS = new Set([
+  'go',
+  'archive',
+  'switchBranch',
+  'trimHistory',
+  'squash',
+  'rebase',
+  'applyRemote',
+  'replaceStateWithoutHistory',
+  'hydrate',
+  'reset',
+]);
+
+/**
+ * Read the entries of a Travels instance, one per position after the
+ * initial state
+ */
+export function readHistoryEntries(
+  travels: Travels<any, false, boolean>
+): HistoryEntry[] {
+  const { patches, inversePatches } = travels.getPatches();
+  const metadata = travels.getMetadata();
+  return patches.map((entry, index) => ({
+    patches: entry,
+    inversePatches: inversePatches[index],
+    metadata: metadata[index],
+  }));
+}
+
+/**
+ * History for a new Travels instance at the initial state of `entries`
+ */
+export const toTravelsHistory = (entries: HistoryEntry[]): TravelsHistory => ({
+  patches: {
+    patches: entries.map((entry) => entry.patches),
+    inversePatches: entries.map((entry) => entry.inversePatches),
+  },
+  position: 0,
+  metadata: entries.map((entry) => entry.metadata),
+});
+
+const isSameEntry = (a: HistoryEntry, b: HistoryEntry) =>
+  isEqual(a.patches, b.patches) && isEqual(a.inversePatches, b.inversePatches);
+
+const forEachNode = (
+  node: HistoryNode,
+  fn: (node: HistoryNode, depth: number) => void,
+  depth = 0
+) => {
+  fn(node, depth);
+  for (const child of node.children) {
+    forEachNode(child, fn, depth + 1);
+  }
+};
+
+/**
+ * Keep every history entry in a tree, so an edit after undo adds a branch
+ * instead of discarding the redo entries.
+ *
+ * The tree mirrors the Travels instance: `path` always matches its history,
+ * and the other branches hang off it. Call `load()` before anything else.
+ */
+export function createBranchTree(): BranchTree {
+  let nextId = 0;
+  let root: HistoryNode;
+  // Nodes of the current history, one per entry
+  let path: HistoryNode[] = [];
+  let position = 0;
+  // Node created for the entry that commits are still merging into
+  let openNode: HistoryNode | undefined;
+
+  const createNode = (
+    parent: HistoryNode | undefined,
+    entry: HistoryEntry
+  ): HistoryNode => {
+    const id = nextId++;
+    // An edit below an entry that already has children starts a branch
+    const branch = !parent ? id : parent.children.length ? id : parent.branch;
+    const node: HistoryNode = { ...entry, id, branch, parent, children: [] };
+    parent?.children.push(node);
+    return node;
+  };
+
+  const createRoot = () =>
+    createNode(undefined, {
+      patches: [],
+      inversePatches: [],
+      metadata: undefined,
+    });
+
+  const load = (entries: HistoryEntry[], nextPosition: number) => {
+    root = createRoot();
+    path = [];
+    openNode = undefined;
+    let parent = root;
+    for (const entry of entries) {
+      parent = createNode(parent, entry);
+      path.push(parent);
+    }
+    position = nextPosition;
+  };
+
+  // Match history entries from `from` onwards against the tree, reusing
+  // nodes with the same patches
+  const match = (entries: HistoryEntry[], from: number, isCommit: boolean) => {
+    const next = path.slice(0, from);
+    let parent = from > 0 ? path[from - 1] : root;
+    for (let index = from; index < entries.length; index += 1) {
+      const entry = entries[index];
+      const previous: HistoryNode | undefined = path[index];
+      let node =
+        previous?.parent === parent && isSameEntry(previous, entry)
+          ? previous
+          : parent.children.find((child) => isSameEntry(child, entry));
+      if (
+        !node &&
+        isCommit &&
+        previous === openNode &&
+        previous?.parent === parent &&
+        index < position &&
+        previous.children.length === 0
+      ) {
+        // A commit merged into the entry before the cursor
+        node = previous;
+        node.patches = entry.patches;
+        node.inversePatches = entry.inversePatches;
+      }
+      if (!node) {
+        node = createNode(parent, entry);
+        if (isCommit) openNode = node;
+      }
+      node.metadata = entry.metadata;
+      next.push(node);
+      parent = node;
+    }
+    path = next;
+  };
+
+  const sync: BranchTree['sync'] = (type, nextPosition, readEntries) => {
+    const isCommit = !NON_COMMIT_EVENTS.has(type);
+    // Only commits merge into the open entry, anything else closes it
+    if (!isCommit) openNode = undefined;
+    switch (type) {
+      case 'go':
+      case 'archive':
+      case 'switchBranch':
+      case 'trimHistory':
+      case 'squash':
+        break;
+      case 'rebase':
+      case 'replaceStateWithoutHistory':
+      case 'hydrate':
+      case 'applyRemote':
+        load(readEntries(), nextPosition);
+        break;
+      case 'reset':
+        match(readEntries(), 0, false);
+        break;
+      default:
+        // Entries before the cursor are settled, except the one a commit
+        // may merge into
+        match(readEntries(), Math.max(0, position - 1), true);
+        break;
+    }
+    position = nextPosition;
+  };
+
+  const prune = (limit: number) => {
+    const active = new Set(path);
+    let size = -1;
+    const leaves: HistoryNode[] = [];
+    forEachNode(root, (node) => {
+      size += 1;
+      if (node !== root && !node.children.length && !active.has(node)) {
+        leaves.push(node);
+      }
+    });
+    // Oldest first, so the most recent work survives
+    leaves.sort((a, b) => a.id - b.id);
+    while (size > limit && leaves.length) {
+      const leaf = leaves.shift()!;
+      const parent = leaf.parent!;
+      parent.children.splice(parent.children.indexOf(leaf), 1);
+      size -= 1;
+      if (parent !== root && !parent.children.length && !active.has(parent)) {
+        const index = leaves.findIndex(({ id }) => id > parent.id);
+        leaves.splice(index === -1 ? leaves.length : index, 0, parent);
+      }
+    }
+  };
+
+  const trim = (count: number) => {
+    if (count <= 0) return;
+    root = path[count - 1];
+    root.parent = undefined;
+    root.patches = [];
+    root.inversePatches = [];
+    root.metadata = undefined;
+    path = path.slice(count);
+    position -= count;
+    // The rebuilt instance archives the open entry
+    openNode = undefined;
+  };
+
+  const squash: BranchTree['squash'] = (from, to, entry) => {
+    const first = path[from];
+    const parent = first.parent!;
+    // Later entries and branches hang off the merged entry
+    const node: HistoryNode = {
+      ...entry,
+      id: nextId++,
+      branch: first.branch,
+      parent,
+      children: path[to - 1].children,
+    };
+    for (const child of node.children) {
+      child.parent = node;
+    }
+    parent.children.splice(parent.children.indexOf(first), 1, node);
+    path = [...path.slice(0, from), node, ...path.slice(to)];
+    openNode = undefined;
+  };
+
+  const findTip = (id: number) => {
+    let tip: HistoryNode | undefined;
+    let tipDepth = -1;
+    forEachNode(root, (node, depth) => {
+      if (node.branch === id && node !== root && depth > tipDepth) {
+        tip = node;
+        tipDepth = depth;
+      }
+    });
+    return tip;
+  };
+
+  const resolve: BranchTree['resolve'] = (id) => {
+    const tip = findTip(id);
+    if (!tip) return undefined;
+    const nodes: HistoryNode[] = [];
+    for (let node: HistoryNode = tip; node !== root; node = node.parent!) {
+      nodes.unshift(node);
+    }
+    return nodes;
+  };
+
+  const activate = (entries: HistoryEntry[]) => {
+    path = entries as HistoryNode[];
+    position = path.length;
+    openNode = undefined;
+  };
+
+  const getBranches = () => {
+    const activeBranch = (path[path.length - 1] ?? root).branch;
+    const branches = new Map<
+      number,
+      { id: number; position: number; length: number; tip?: HistoryNode }
+    >();
+    forEachNode(root, (node, depth) => {
+      let branch = branches.get(node.branch);
+      if (!branch) {
+        // A branch's first entry is reached before the rest
+        branch = {
+          id: node.branch,
+          position: node === root ? 0 : depth - 1,
+          length: 0,
+        };
+        branches.set(node.branch, branch);
+      }
+      if (node !== root) {
+        branch.length += 1;
+        branch.tip = node;
+      }
+    });
+    const list = [...branches.values()];
+    list.sort((a, b) => a.id - b.id);
+    return list.map(
+      ({ id, position: start, length, tip }): TravelBranch => ({
+        id,
+        position: start,
+        length,
+        active: id === activeBranch,
+        label: tip?.metadata?.label,
+        timestamp: tip?.metadata?.timestamp,
+      })
+    );
+  };
+
+  const getTree = () => {
+    const active = new Set(path);
+    const toView = (node: HistoryNode, depth: number): TravelHistoryNode => ({
+      id: node.id,
+      branch: node.branch,
+      position: depth,
+      label: node.metadata?.label,
+      meta: node.metadata,
+      timestamp: node.metadata?.timestamp,
+      active: node === root || active.has(node),
+      current: (position ? path[position - 1] : root) === node,
+      children: node.children.map((child) => toView(child, depth + 1)),
+    });
+    return toView(root, 0);
+  };
+
+  return {
+    sync,
+    load,
+    prune,
+    trim,
+    squash,
+    resolve,
+    activate,
+    getEntries: () => path,
+    getBranches,
+    getTree,
+  };
+}
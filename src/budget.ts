@@ -0,0 +1,68 @@
+import type { HistoryEntry } from './branches';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * A retained history entry, as passed to the `sizeOf` option
+ */
+export type TravelHistoryEntry = Readonly<HistoryEntry>;
+
+/**
+ * Size of the retained history, in the unit `sizeOf` returns
+ */
+export type TravelHistoryUsage = {
+  readonly size: number;
+  /** `maxHistoryBytes`, when set */
+  readonly limit?: number;
+  /** Number of retained entries */
+  readonly entries: number;
+};
+
+// ============================================================================
+// Budget Helpers
+// ============================================================================
+
+/**
+ * Default `sizeOf`: the length of the entry's JSON, which is close to its
+ * size in bytes for mostly ASCII data
+ */
+export const estimateEntrySize = (entry: TravelHistoryEntry): number =>
+  JSON.stringify(entry).length;
+
+/**
+ * Count the oldest entries to drop so the rest fit in `limit`, dropping at
+ * most `max`
+ */
+export function countOverBudget(
+  sizes: number[],
+  limit: number,
+  max: number
+): number {
+  let total = sizes.reduce((sum, size) => sum + size, 0);
+  let count = 0;
+  while (total > limit && count < max) {
+    total -= sizes[count];
+    count += 1;
+  }
+  return count;
+}
+
+/**
+ * Count the oldest entries to drop because they were recorded before
+ * `cutoff`, dropping at most `max`. Entries without a timestamp go with the
+ * expired entries after them.
+ */
+export function countExpired(
+  entries: TravelHistoryEntry[],
+  cutoff: number,
+  max: number
+): number {
+  let count = 0;
+  for (let index = 0; index < Math.min(max, entries.length); index += 1) {
+    const timestamp = entries[index].metadata?.timestamp;
+    if (timestamp !== undefined && timestamp < cutoff) count = index + 1;
+  }
+  return count;
+}
@@ -0,0 +1,76 @@
+import type { TravelsSerializedHistory } from 'travels';
+import { isPlainObject } from './utils';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * A named copy of the tracked state. The state is kept, so the checkpoint
+ * stays usable after its history entry is trimmed or rebased away.
+ */
+export type TravelCheckpoint<S> = {
+  readonly name: string;
+  readonly state: S;
+  /** History position when the checkpoint was created */
+  readonly position: number;
+  /** When the checkpoint was created, in milliseconds since the epoch */
+  readonly timestamp: number;
+};
+
+/**
+ * Serialized history plus the store's checkpoints
+ */
+export type TravelSnapshot<S> = TravelsSerializedHistory<S> & {
+  checkpoints?: TravelCheckpoint<S>[];
+};
+
+export type CheckpointStore<S> = {
+  set: (checkpoint: TravelCheckpoint<S>) => void;
+  get: (name: string) => TravelCheckpoint<S> | undefined;
+  list: () => TravelCheckpoint<S>[];
+  remove: (name: string) => boolean;
+  /**
+   * Replace every checkpoint, e.g. from a persisted snapshot
+   */
+  load: (checkpoints: unknown) => void;
+};
+
+// ============================================================================
+// Checkpoint Store Implementation
+// ============================================================================
+
+const isCheckpoint = (value: unknown): value is TravelCheckpoint<unknown> =>
+  isPlainObject(value) &&
+  typeof value.name === 'string' &&
+  'state' in value &&
+  Number.isInteger(value.position) &&
+  typeof value.timestamp === 'number';
+
+export function createCheckpointStore<S>(): CheckpointStore<S> {
+  // Insertion order is creation order
+  let checkpoints = new Map<string, TravelCheckpoint<S>>();
+
+  return {
+    set: (checkpoint) => {
+      checkpoints.delete(checkpoint.name);
+      checkpoints.set(checkpoint.name, checkpoint);
+    },
+    get: (name) => checkpoints.get(name),
+    list: () => [...checkpoints.values()],
+    remove: (name) => checkpoints.delete(name),
+    load: (value = []) => {
+      if (!Array.isArray(value) || !value.every(isCheckpoint)) {
+        throw new TypeError(
+          '[zustand-travel] Invalid checkpoints: expected an array of { name, state, position, timestamp }'
+        );
+      }
+      checkpoints = new Map(
+        (value as TravelCheckpoint<S>[]).map((checkpoint) => [
+          checkpoint.name,
+          checkpoint,
+        ])
+      );
+    },
+  };
+}
@@ -0,0 +1,64 @@
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type CoalesceOptions<S> = {
+  /**
+   * Commits closer together than this many milliseconds are merged into
+   * the previous history entry
+   */
+  windowMs: number;
+  /**
+   * Group commits by key. Only consecutive commits with the same key are
+   * merged. By default every commit in the window shares one key.
+   */
+  key?: (prev: S, next: S) => string;
+};
+
+export type Coalescer<S> = {
+  /**
+   * Record a commit and report whether it must start a new history entry
+   */
+  next: (prev: S, next: S) => boolean;
+  /**
+   * Close the current window so the next commit starts a new entry
+   */
+  reset: () => void;
+};
+
+// ============================================================================
+// Coalescer Implementation
+// ============================================================================
+
+export function createCoalescer<S>(
+  { windowMs, key }: CoalesceOptions<S>,
+  clock: () => number = () => Date.now()
+): Coalescer<S> {
+  if (__DEV__) {
+    if (
+      typeof windowMs !== 'number' ||
+      !Number.isFinite(windowMs) ||
+      windowMs < 0
+    ) {
+      throw new TypeError(
+        `[zustand-travel] coalesce.windowMs must be a non-negative number, received: ${windowMs}`
+      );
+    }
+  }
+
+  let last: { key: string; time: number } | undefined;
+
+  return {
+    next: (prev, next) => {
+      const commitKey = key ? key(prev, next) : '';
+      const time = clock();
+      const startsEntry =
+        !last || last.key !== commitKey || time - last.time > windowMs;
+      last = { key: commitKey, time };
+      return startsEntry;
+    },
+    reset: () => {
+      last = undefined;
+    },
+  };
+}
@@ -0,0 +1,610 @@
+import type {
+  TravelMetadata,
+  TravelPatches,
+  RebasableManualTravelsControls,
+  RebasableTravelsControls,
+  Travels,
+  TravelsEvent,
+  TravelsSerializeOptions,
+} from 'travels';
+import { apply } from 'mutative';
+import {
+  readHistoryEntries,
+  type TravelBranch,
+  type TravelHistoryNode,
+} from './branches';
+import {
+  estimateEntrySize,
+  type TravelHistoryEntry,
+  type TravelHistoryUsage,
+} from './budget';
+import {
+  createCheckpointStore,
+  type TravelCheckpoint,
+  type TravelSnapshot,
+} from './checkpoints';
+import { diffStates, type TravelChange } from './diff';
+import {
+  createRecorder,
+  createReplay,
+  type TravelRecorder,
+  type TravelRecording,
+  type TravelReplay,
+} from './recording';
+import type { TravelRemoteResult } from './remote';
+import { findRevertConflicts, type TravelRevertResult } from './revert';
+import { isEqual } from './utils';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Snapshot of the history cursor. A new object is created only when one of
+ * the values changes, so it can be compared by reference.
+ */
+export type TravelStatus = {
+  readonly position: number;
+  /** Number of retained history entries, not counting the initial state */
+  readonly historyLength: number;
+  readonly canBack: boolean;
+  readonly canForward: boolean;
+  /** Always `false` unless `autoArchive` is disabled */
+  readonly canArchive: boolean;
+};
+
+/**
+ * A history position and what was recorded with it
+ */
+export type TravelEntry<S> = {
+  readonly state: S;
+  /** Label passed to `set`, `transaction`, or `archive` */
+  readonly label?: string;
+  /** All metadata recorded with the entry, including the label */
+  readonly meta?: TravelMetadata;
+  /** When the entry was first recorded, in milliseconds since the epoch */
+  readonly timestamp?: number;
+};
+
+/**
+ * Controls added with `branching: true`
+ */
+export type TravelBranchControls = {
+  /**
+   * Get every branch of the history tree, oldest first
+   */
+  getBranches: () => TravelBranch[];
+  /**
+   * Make a branch the current history and move to its latest entry.
+   * `back()` and `forward()` then follow that branch.
+   *
+   * @returns `false` when no branch has the id
+   */
+  switchBranch: (id: number) => boolean;
+  /**
+   * Get the history tree, starting with the initial state
+   */
+  getHistoryTree: () => TravelHistoryNode;
+};
+
+/**
+ * A move through history. `to` is the position the move leads to; `rebase`
+ * and `reset` lead to the baseline at position 0.
+ */
+export type TravelMove = {
+  readonly kind: 'back' | 'forward' | 'go' | 'reset' | 'rebase';
+  readonly from: number;
+  readonly to: number;
+};
+
+export type TravelGuard = {
+  /**
+   * Runs before a move. Return `false` to cancel it.
+   */
+  beforeTravel?: (move: TravelMove) => boolean | void;
+  /**
+   * Runs after a move, e.g. for side effects
+   */
+  afterTravel?: (move: TravelMove) => void;
+};
+
+export type TravelControlsExtension<S> = Partial<TravelBranchControls> & {
+  /**
+   * Subscribe to every history change: commits, navigation, archive,
+   * reset, and rebase
+   *
+   * @returns Unsubscribe function
+   */
+  subscribe: (listener: (event: TravelsEvent<S>) => void) => () => void;
+  /**
+   * Get the current history status snapshot
+   */
+  getStatus: () => TravelStatus;
+  /**
+   * Get one entry per history position, starting with the initial state,
+   * which has no metadata
+   */
+  getHistoryEntries: () => TravelEntry<S>[];
+  /**
+   * Serialize the tracked state, patch history, position, and checkpoints,
+   * e.g. for persistence
+   */
+  serialize: (options?: TravelsSerializeOptions) => TravelSnapshot<S>;
+  /**
+   * Replace the tracked state, its history, and the checkpoints with a
+   * snapshot, typically one validated by `Travels.deserialize(...)`.
+   * Listeners receive an event of type `'hydrate'`.
+   */
+  hydrate: (snapshot: TravelSnapshot<S>) => void;
+  /**
+   * Save the current tracked state under a name, replacing any checkpoint
+   * with the same name
+   */
+  checkpoint: (name: string) => TravelCheckpoint<S>;
+  /**
+   * Return to a checkpoint's state. Navigates to a history position that
+   * holds the state when one exists, otherwise records the state as a new
+   * entry, e.g. after the original entry was trimmed or rebased away.
+   *
+   * @returns `false` when no checkpoint has the name, or when a guard
+   * cancels the move
+   */
+  goToCheckpoint: (name: string) => boolean;
+  /**
+   * Get every checkpoint, in creation order
+   */
+  listCheckpoints: () => TravelCheckpoint<S>[];
+  /**
+   * @returns `false` when no checkpoint has the name
+   */
+  removeCheckpoint: (name: string) => boolean;
+  /**
+   * Undo the entry at a position, keeping every entry after it. The entry's
+   * inverse patches are applied to the current state and recorded as a new
+   * entry, unless a later entry changed the same data.
+   *
+   * @param position - Position the entry leads to, from 1 to the current
+   * position
+   */
+  revert: (position: number) => TravelRevertResult;
+  /**
+   * List what changed between two history positions, in either direction.
+   * Pass the result to `formatDiff()` for text.
+   */
+  diff: (from: number, to: number) => TravelChange[];
+  /**
+   * Run hooks around `back`, `forward`, `go`, `reset`, and `rebase`. A
+   * function is used as `beforeTravel`.
+   *
+   * @returns Function that removes the hooks
+   */
+  guard: (
+    guard: TravelGuard | NonNullable<TravelGuard['beforeTravel']>
+  ) => () => void;
+  /**
+   * Get the size of the retained history, as measured by `sizeOf`
+   */
+  getHistoryUsage: () => TravelHistoryUsage;
+  /**
+   * Get the number of async transactions that have not finished. Their
+   * changes are shown in the store but not recorded in history yet.
+   */
+  getPendingTransactionCount: () => number;
+  /**
+   * Merge the entries between two positions into one, e.g. many small edits
+   * into a single undo step. The merged entry keeps the first entry's
+   * metadata unless `metadata` is given, and records the number of entries
+   * it holds in `squashed`. A current position inside the range moves to
+   * the end of the merged entry.
+   */
+  squash: (from: number, to: number, metadata?: TravelMetadata) => void;
+  /**
+   * Go to the last position recorded at or before `time`, or to the
+   * initial state when every entry is newer
+   */
+  goToTime: (time: number | Date) => void;
+  /**
+   * Apply patches made elsewhere, e.g. by another user on a server, to the
+   * current state without losing local history. Undo and redo entries that
+   * touch the same data can no longer apply and are dropped.
+   */
+  applyRemote: (
+    patches: TravelPatches['patches'][number]
+  ) => TravelRemoteResult;
+  /**
+   * Record every change of the tracked state from now on, with its label,
+   * patches, and timing, e.g. to reproduce a bug
+   */
+  record: () => TravelRecorder<S>;
+  /**
+   * Replay a recording, typically into a new store created with the same
+   * initializer. The recorded patches are applied again, without running
+   * actions, and each replayed state is written without history.
+   */
+  replay: (recording: TravelRecording<S>) => TravelReplay;
+};
+
+export type TravelControls<S> = (
+  | RebasableTravelsControls<S, false>
+  | RebasableManualTravelsControls<S, false>
+) &
+  TravelControlsExtension<S>;
+
+/**
+ * Structural type of a store created with the `travel` middleware, for
+ * helpers that accept any such store. It lists only controls that read the
+ * state, so stores match it whatever their state type.
+ */
+export type TravelStore = {
+  getState: () => unknown;
+  subscribe: (listener: () => void) => () => void;
+  getControls: () => Pick<
+    TravelControls<unknown>,
+    | 'position'
+    | 'getHistory'
+    | 'getStatus'
+    | 'getPendingTransactionCount'
+    | 'subscribe'
+    | 'go'
+    | 'back'
+    | 'forward'
+    | 'reset'
+    | 'rebase'
+    | 'canBack'
+    | 'canForward'
+  >;
+};
+
+type ControlsOptions<S> = {
+  /**
+   * Expose `archive()` and `canArchive()`
+   */
+  manual: boolean;
+  /**
+   * Subscribe to the current Travels instance and any that replace it
+   */
+  subscribe: TravelControlsExtension<S>['subscribe'];
+  /**
+   * Replace the Travels instance from a snapshot
+   */
+  hydrate: (snapshot: TravelSnapshot<S>) => void;
+  /**
+   * Record a state that is no longer in history as a new entry
+   */
+  restore: (state: S, metadata: TravelMetadata) => void;
+  /**
+   * Write a tracked state without history, clearing it
+   */
+  replace: (state: S) => void;
+  /**
+   * Apply remote patches below the local history
+   */
+  applyRemote: (
+    patches: TravelPatches['patches'][number]
+  ) => TravelRemoteResult;
+  /**
+   * Current time for checkpoint timestamps, by default `Date.now`
+   */
+  clock?: () => number;
+  /**
+   * Merge the entries between two valid positions into one
+   */
+  squash: (from: number, to: number, metadata?: TravelMetadata) => void;
+  /**
+   * Estimate the size of one entry, by default the length of its JSON
+   */
+  sizeOf?: (entry: TravelHistoryEntry) => number;
+  /**
+   * History budget reported by `getHistoryUsage()`
+   */
+  maxHistoryBytes?: number;
+  /**
+   * Number of unfinished async transactions, by default none
+   */
+  getPendingTransactionCount?: () => number;
+  /**
+   * Branch controls, only in branching mode
+   */
+  branches?: TravelBranchControls;
+};
+
+// ============================================================================
+// Controls Implementation
+// ============================================================================
+
+const isSameStatus = (a: TravelStatus, b: TravelStatus) =>
+  a.position === b.position &&
+  a.historyLength === b.historyLength &&
+  a.canBack === b.canBack &&
+  a.canForward === b.canForward &&
+  a.canArchive === b.canArchive;
+
+/**
+ * Create the controls object returned by `getControls()`.
+ *
+ * Every member reads from `getTravels()` at call time, so the object keeps a
+ * stable identity when the middleware replaces the Travels instance.
+ */
+export function createControls<S>(
+  getTravels: () => Travels<S, false, boolean>,
+  {
+    manual,
+    subscribe,
+    hydrate,
+    restore,
+    squash,
+    applyRemote,
+    replace,
+    clock = () => Date.now(),
+    sizeOf = estimateEntrySize,
+    maxHistoryBytes,
+    getPendingTransactionCount = () => 0,
+    branches,
+  }: ControlsOptions<S>
+): TravelControls<S> {
+  let status: TravelStatus | undefined;
+  const guards = new Set<TravelGuard>();
+  // Checkpoints keep their state, so trimming and rebasing never break them
+  const checkpoints = createCheckpointStore<S>();
+
+  const readStatus = (historyLength: number): TravelStatus => {
+    const travels = getTravels();
+    const next: TravelStatus = {
+      position: travels.getPosition(),
+      historyLength,
+      canBack: travels.canBack(),
+      canForward: travels.canForward(),
+      canArchive: manual && travels.canArchive(),
+    };
+    return status && isSameStatus(status, next) ? status : next;
+  };
+
+  // Find the position nearest to `from` whose state equals `state`
+  const findPosition = (state: S, from: number) => {
+    const history = getTravels().getHistory();
+    // Trimming shifts positions down, so the recorded one may be past the end
+    from = Math.min(from, history.length - 1);
+    for (let offset = 0; offset < history.length; offset += 1) {
+      for (const position of offset ? [from - offset, from + offset] : [from]) {
+        if (
+          position >= 0 &&
+          position < history.length &&
+          isEqual(history[position], state)
+        ) {
+          return position;
+        }
+      }
+    }
+    return -1;
+  };
+
+  // Run a move unless a guard cancels it. Moves that stay in place skip
+  // the guards.
+  const travel = (kind: TravelMove['kind'], to: number, run: () => void) => {
+    const travels = getTravels();
+    const from = travels.getPosition();
+    if (kind !== 'reset' && kind !== 'rebase') {
+      if (!Number.isFinite(to)) return run();
+      to = Math.min(
+        Math.max(Math.trunc(to), 0),
+        travels.getPatches().patches.length
+      );
+      if (to === from) return run();
+    }
+    const move: TravelMove = { kind, from, to };
+    const list = [...guards];
+    for (const { beforeTravel } of list) {
+      if (beforeTravel?.(move) === false) return;
+    }
+    run();
+    for (const { afterTravel } of list) {
+      afterTravel?.(move);
+    }
+  };
+
+  // Keep the status in step with Travels before any other listener runs
+  subscribe(({ historyLength }) => {
+    status = readStatus(historyLength);
+  });
+
+  const controls = {
+    get position(): number {
+      return getTravels().getPosition();
+    },
+    getHistory: () => getTravels().getHistory() as S[],
+    getHistoryEntries: () => {
+      const travels = getTravels();
+      const metadata = travels.getMetadata();
+      return travels.getHistory().map((state, index): TravelEntry<S> => {
+        const meta = index > 0 ? metadata[index - 1] : undefined;
+        return {
+          state: state as S,
+          label: meta?.label,
+          meta,
+          timestamp: meta?.timestamp,
+        };
+      });
+    },
+    getHistorySnapshot: () => getTravels().getHistorySnapshot(),
+    get patches() {
+      return getTravels().getPatches();
+    },
+    back: (amount = 1) =>
+      travel('back', getTravels().getPosition() - amount, () =>
+        getTravels().back(amount)
+      ),
+    forward: (amount = 1) =>
+      travel('forward', getTravels().getPosition() + amount, () =>
+        getTravels().forward(amount)
+      ),
+    reset: () => travel('reset', 0, () => getTravels().reset()),
+    go: (position: number) =>
+      travel('go', position, () => getTravels().go(position)),
+    canBack: () => getTravels().canBack(),
+    canForward: () => getTravels().canForward(),
+    rebase: () => travel('rebase', 0, () => getTravels().rebase()),
+    subscribe,
+    getStatus: () =>
+      (status ??= readStatus(getTravels().getPatches().patches.length)),
+    serialize: (options?: TravelsSerializeOptions): TravelSnapshot<S> => {
+      const snapshot = getTravels().serialize(options);
+      const list = checkpoints.list();
+      return list.length > 0 ? { ...snapshot, checkpoints: list } : snapshot;
+    },
+    hydrate: (snapshot: TravelSnapshot<S>) => {
+      // Validate the checkpoints before anything is replaced
+      const previous = checkpoints.list();
+      checkpoints.load(snapshot.checkpoints);
+      try {
+        hydrate(snapshot);
+      } catch (error) {
+        checkpoints.load(previous);
+        throw error;
+      }
+    },
+    checkpoint: (name: string) => {
+      if (__DEV__) {
+        if (typeof name !== 'string' || !name) {
+          throw new TypeError(
+            `[zustand-travel] Checkpoint name must be a non-empty string, received: ${JSON.stringify(name)}`
+          );
+        }
+      }
+      const travels = getTravels();
+      const checkpoint: TravelCheckpoint<S> = {
+        name,
+        state: travels.getState(),
+        position: travels.getPosition(),
+        timestamp: clock(),
+      };
+      checkpoints.set(checkpoint);
+      return checkpoint;
+    },
+    goToCheckpoint: (name: string) => {
+      const checkpoint = checkpoints.get(name);
+      if (!checkpoint) return false;
+      const travels = getTravels();
+      if (isEqual(travels.getState(), checkpoint.state)) return true;
+      const position = findPosition(checkpoint.state, checkpoint.position);
+      if (position === -1) {
+        restore(checkpoint.state, {
+          label: `checkpoint: ${name}`,
+          checkpoint: name,
+        });
+        return true;
+      }
+      controls.go(position);
+      // A guard may have cancelled the move
+      return getTravels().getPosition() === position;
+    },
+    listCheckpoints: () => checkpoints.list(),
+    removeCheckpoint: (name: string) => checkpoints.remove(name),
+    diff: (from: number, to: number) => {
+      const travels = getTravels();
+      const history = travels.getHistory();
+      for (const position of [from, to]) {
+        if (
+          !Number.isInteger(position) ||
+          position < 0 ||
+          position >= history.length
+        ) {
+          throw new RangeError(
+            `[zustand-travel] diff() positions must be integers from 0 to ${history.length - 1}, received: ${position}`
+          );
+        }
+      }
+      const { patches, inversePatches } = travels.getPatches();
+      let groups = patches.slice(from, to);
+      if (from > to) {
+        // Inverse patches undo the entries from the latest one back
+        groups = inversePatches.slice(to, from);
+        groups.reverse();
+      }
+      return diffStates(groups, history[from], history[to]);
+    },
+    guard: (guard: TravelGuard | NonNullable<TravelGuard['beforeTravel']>) => {
+      const entry =
+        typeof guard === 'function' ? { beforeTravel: guard } : { ...guard };
+      guards.add(entry);
+      return () => {
+        guards.delete(entry);
+      };
+    },
+    applyRemote,
+    record: () => createRecorder(subscribe, getTravels().getState(), clock),
+    replay: (recording: TravelRecording<S>) =>
+      createReplay(recording, () => getTravels().getState(), replace),
+    goToTime: (time: number | Date) => {
+      const limit = typeof time === 'number' ? time : time.getTime();
+      const metadata = getTravels().getMetadata();
+      let position = 0;
+      metadata.forEach((meta, index) => {
+        if (meta?.timestamp !== undefined && meta.timestamp <= limit) {
+          position = index + 1;
+        }
+      });
+      controls.go(position);
+    },
+    getHistoryUsage: (): TravelHistoryUsage => {
+      const entries = readHistoryEntries(getTravels());
+      const size = entries.reduce((total, entry) => total + sizeOf(entry), 0);
+      return { size, limit: maxHistoryBytes, entries: entries.length };
+    },
+    getPendingTransactionCount,
+    squash: (from: number, to: number, metadata?: TravelMetadata) => {
+      const length = getTravels().getPatches().patches.length;
+      if (
+        !Number.isInteger(from) ||
+        !Number.isInteger(to) ||
+        from < 0 ||
+        to <= from ||
+        to > length
+      ) {
+        throw new RangeError(
+          `[zustand-travel] squash() positions must be integers with 0 <= from < to <= ${length}, received: ${from}, ${to}`
+        );
+      }
+      // A single entry has nothing to merge with
+      if (to - from > 1) squash(from, to, metadata);
+    },
+    revert: (position: number): TravelRevertResult => {
+      const travels = getTravels();
+      const current = travels.getPosition();
+      if (!Number.isInteger(position) || position < 1 || position > current) {
+        return { ok: false, reason: 'out-of-range' };
+      }
+      const { patches, inversePatches } = travels.getPatches();
+      const conflicts = findRevertConflicts(
+        inversePatches[position - 1],
+        patches.slice(position, current),
+        position + 1
+      );
+      if (conflicts.length > 0) {
+        return { ok: false, reason: 'conflict', conflicts };
+      }
+      restore(
+        apply(travels.getState() as object, inversePatches[position - 1]) as S,
+        {
+          label: `revert: ${position}`,
+          revert: position,
+        }
+      );
+      return { ok: true };
+    },
+  } as TravelControls<S>;
+
+  if (branches) {
+    Object.assign(controls, branches);
+  }
+
+  if (manual) {
+    Object.assign(controls, {
+      archive: (
+        ...args: Parameters<RebasableManualTravelsControls<S, false>['archive']>
+      ) => getTravels().archive(...args),
+      canArchive: () => getTravels().canArchive(),
+    });
+  }
+
+  return controls;
+}
@@ -0,0 +1,191 @@
+import type { TravelPatches, TravelsEvent } from 'travels';
+import type { TravelStatus, TravelStore } from './controls';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Message sent by the Redux DevTools extension to a connection
+ */
+export type DevtoolsMessage = {
+  type: string;
+  payload?: {
+    type?: string;
+    actionId?: number;
+  };
+  state?: string;
+};
+
+/**
+ * The subset of a Redux DevTools connection the bridge uses
+ */
+export type DevtoolsConnection = {
+  init: (state: unknown) => void;
+  send: (
+    action: { type: string; position: number; patches: TravelPatches },
+    state: unknown
+  ) => void;
+  subscribe: (
+    listener: (message: DevtoolsMessage) => void
+  ) => (() => void) | void;
+};
+
+/**
+ * `window.__REDUX_DEVTOOLS_EXTENSION__` or a compatible object
+ */
+export type DevtoolsExtension = {
+  connect: (options: { name?: string }) => DevtoolsConnection;
+};
+
+export type DevtoolsOptions = {
+  /**
+   * Instance name shown in DevTools
+   */
+  name?: string;
+  /**
+   * By default `window.__REDUX_DEVTOOLS_EXTENSION__`
+   */
+  extension?: DevtoolsExtension;
+};
+
+// ============================================================================
+// DevTools Bridge
+// ============================================================================
+
+// Whether the positions recorded before an event still lead to the same
+// entries. A commit must append an entry or extend the open one, without
+// discarding redo entries or trimming the oldest.
+const keepsPositions = (
+  { type, position, historyLength }: TravelsEvent<unknown>,
+  before: TravelStatus
+) => {
+  switch (type) {
+    case 'go':
+    case 'archive':
+      return historyLength === before.historyLength;
+    case 'setState':
+    case 'recordPatches':
+    case 'transaction': {
+      const appended =
+        position === before.position + 1 &&
+        historyLength === before.historyLength + 1;
+      const extended =
+        before.canArchive &&
+        position === before.position &&
+        historyLength === before.historyLength;
+      return before.position === before.historyLength && (appended || extended);
+    }
+    default:
+      // Trimming, squashing, and rebuilding history move its entries
+      return false;
+  }
+};
+
+const getExtension = () =>
+  (globalThis as { __REDUX_DEVTOOLS_EXTENSION__?: DevtoolsExtension })
+    .__REDUX_DEVTOOLS_EXTENSION__;
+
+/**
+ * Report history changes to Redux DevTools and drive history from it.
+ *
+ * Each change is sent as an action named after its metadata label, or the
+ * Travels event type, with its position and patches. Jumping to an action
+ * calls `controls.go()`, Commit calls `rebase()`, and Reset calls `reset()`,
+ * so DevTools never writes to the store behind the middleware's back. When
+ * history is rewritten, e.g. a commit discards redo entries or the oldest
+ * entries are trimmed, the DevTools log starts over from the current state.
+ *
+ * @example
+ * ```typescript
+ * const disconnect = connectDevtools(useStore, { name: 'Todos' });
+ * ```
+ *
+ * @param store - A store created with `travel`. Its state is sent with every
+ * change.
+ * @returns Function that stops reporting and listening. A no-op when the
+ * extension is not installed.
+ */
+export function connectDevtools(
+  store: TravelStore,
+  { name, extension = getExtension() }: DevtoolsOptions = {}
+): () => void {
+  if (!extension) {
+    return () => {};
+  }
+
+  const controls = store.getControls();
+  const connection = extension.connect({ name });
+  // History position recorded with each DevTools action id
+  let positions: number[] = [];
+  let status = controls.getStatus();
+  // Set while a DevTools message drives history, so the resulting change
+  // is not reported back as a new action
+  let isDispatching = false;
+
+  const init = () => {
+    status = controls.getStatus();
+    positions = [status.position];
+    connection.init(store.getState());
+  };
+
+  const dispatch = (fn: () => void) => {
+    isDispatching = true;
+    try {
+      fn();
+    } finally {
+      isDispatching = false;
+    }
+  };
+
+  init();
+
+  const unsubscribeTravels = controls.subscribe((event) => {
+    const before = status;
+    status = controls.getStatus();
+    if (isDispatching) return;
+    if (!keepsPositions(event, before)) {
+      init();
+      return;
+    }
+    positions.push(event.position);
+    connection.send(
+      {
+        type: event.metadata?.label ?? event.type,
+        position: event.position,
+        patches: event.patches,
+      },
+      store.getState()
+    );
+  });
+
+  const unsubscribeDevtools = connection.subscribe((message) => {
+    if (message.type !== 'DISPATCH') return;
+    switch (message.payload?.type) {
+      case 'JUMP_TO_STATE':
+      case 'JUMP_TO_ACTION': {
+        const position = positions[message.payload.actionId ?? -1];
+        if (position !== undefined && position <= status.historyLength) {
+          dispatch(() => controls.go(position));
+        }
+        return;
+      }
+      case 'COMMIT':
+        dispatch(() => controls.rebase());
+        init();
+        return;
+      case 'RESET':
+        dispatch(() => controls.reset());
+        init();
+        return;
+      default:
+        // Other DevTools features would rewrite state outside history
+        return;
+    }
+  });
+
+  return () => {
+    unsubscribeTravels();
+    if (typeof unsubscribeDevtools === 'function') unsubscribeDevtools();
+  };
+}
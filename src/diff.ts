@@ -0,0 +1,136 @@
+import type { TravelPatches } from 'travels';
+import { getIn, isEqual, patchPath, pathsOverlap } from './utils';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+type Patches = TravelPatches['patches'][number];
+
+/**
+ * One change between two history positions. `oldValue` is missing for
+ * added values, and `newValue` for removed ones.
+ */
+export type TravelChange = {
+  readonly type: 'added' | 'removed' | 'replaced';
+  readonly path: (string | number)[];
+  readonly oldValue?: unknown;
+  readonly newValue?: unknown;
+};
+
+/**
+ * Turn one change into a line of text
+ */
+export type TravelDiffFormatter = (change: TravelChange) => string;
+
+// ============================================================================
+// Diff Implementation
+// ============================================================================
+
+const compareValues = (
+  path: (string | number)[],
+  before: unknown,
+  after: unknown,
+  changes: TravelChange[]
+) => {
+  const { found: hadValue, value: oldValue } = getIn(before, path);
+  const { found: hasValue, value: newValue } = getIn(after, path);
+  if (!hadValue && !hasValue) return;
+  if (!hadValue) {
+    changes.push({ type: 'added', path, newValue });
+  } else if (!hasValue) {
+    changes.push({ type: 'removed', path, oldValue });
+  } else if (Array.isArray(oldValue) && Array.isArray(newValue)) {
+    // Items appended or removed at the end are listed one by one
+    const shared = Math.min(oldValue.length, newValue.length);
+    const longer = oldValue.length > newValue.length ? oldValue : newValue;
+    if (
+      !oldValue.slice(0, shared).every((item, i) => isEqual(item, newValue[i]))
+    ) {
+      changes.push({ type: 'replaced', path, oldValue, newValue });
+      return;
+    }
+    for (let index = shared; index < longer.length; index += 1) {
+      compareValues([...path, index], before, after, changes);
+    }
+  } else if (!isEqual(oldValue, newValue)) {
+    changes.push({ type: 'replaced', path, oldValue, newValue });
+  }
+};
+
+/**
+ * List what changed from `before` to `after`, looking only at the paths
+ * `patches` touched. Several patches to one path are reported as a single
+ * change, and paths that end up unchanged are left out.
+ */
+export function diffStates(
+  patches: Patches[],
+  before: unknown,
+  after: unknown
+): TravelChange[] {
+  const paths: (string | number)[][] = [];
+  for (const group of patches) {
+    for (const patch of group) {
+      const path = patchPath(patch);
+      // A change to a parent covers every change below it
+      if (
+        paths.some(
+          (known) => known.length <= path.length && pathsOverlap(known, path)
+        )
+      ) {
+        continue;
+      }
+      for (let index = paths.length - 1; index >= 0; index -= 1) {
+        if (pathsOverlap(paths[index], path)) paths.splice(index, 1);
+      }
+      paths.push(path);
+    }
+  }
+  const changes: TravelChange[] = [];
+  for (const path of paths) {
+    compareValues(path, before, after, changes);
+  }
+  return changes;
+}
+
+const formatValue = (value: unknown) => {
+  const text = JSON.stringify(value);
+  return text === undefined ? String(value) : text;
+};
+
+/**
+ * Default formatter, e.g. `~ todos.0.done: false -> true`
+ */
+export const defaultDiffFormatter: TravelDiffFormatter = ({
+  type,
+  path,
+  oldValue,
+  newValue,
+}) => {
+  const key = path.length ? path.join('.') : '(root)';
+  switch (type) {
+    case 'added':
+      return `+ ${key}: ${formatValue(newValue)}`;
+    case 'removed':
+      return `- ${key}: ${formatValue(oldValue)}`;
+    default:
+      return `~ ${key}: ${formatValue(oldValue)} -> ${formatValue(newValue)}`;
+  }
+};
+
+/**
+ * Turn the changes returned by `controls.diff()` into text, one line per
+ * change
+ *
+ * @example
+ * ```typescript
+ * formatDiff(controls.diff(0, controls.position));
+ * formatDiff(changes, ({ path }) => `Changed ${path.join(' / ')}`);
+ * ```
+ */
+export function formatDiff(
+  changes: TravelChange[],
+  formatter: TravelDiffFormatter = defaultDiffFormatter
+): string {
+  return changes.map(formatter).join('\n');
+}
@@ -0,0 +1,111 @@
+import { apply, type Patches } from 'mutative';
+import { patchPath, pathsOverlap } from './utils';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * What happens to an async transaction's changes when its promise rejects
+ *
+ * - `rollback`: discard them
+ * - `keep`: record them as one history entry, like a fulfilled flow
+ */
+export type AsyncErrorPolicy = 'rollback' | 'keep';
+
+export type AsyncTransactionOptions = {
+  /**
+   * By default `'rollback'`
+   */
+  onError?: AsyncErrorPolicy;
+};
+
+export type AsyncFlows<S> = {
+  /** Number of flows that have not finished */
+  readonly size: number;
+  /**
+   * Start a flow
+   *
+   * @returns The flow's id
+   */
+  start: () => number;
+  isActive: (id: number) => boolean;
+  /**
+   * Record changes a flow made on top of the displayed state
+   */
+  record: (id: number, patches: Patches) => void;
+  /**
+   * Drop changes of every flow to paths that `patches` writes, so a later
+   * write outside the flows wins
+   */
+  overwrite: (patches: Patches) => void;
+  /**
+   * End a flow
+   *
+   * @returns The flow's remaining changes, in order
+   */
+  finish: (id: number) => Patches;
+  /**
+   * Apply the changes of every unfinished flow to committed state
+   */
+  apply: (state: S) => S;
+};
+
+// ============================================================================
+// Async Flows Implementation
+// ============================================================================
+
+/**
+ * Keep the changes of unfinished async transactions out of history. They are
+ * shown on top of the committed state until their flow ends, then recorded
+ * as one entry or discarded.
+ */
+export function createAsyncFlows<S>(): AsyncFlows<S> {
+  let nextId = 0;
+  const active = new Set<number>();
+  // Changes of every flow, in the order they were made
+  let records: { id: number; patches: Patches }[] = [];
+
+  return {
+    get size() {
+      return active.size;
+    },
+    start: () => {
+      const id = nextId++;
+      active.add(id);
+      return id;
+    },
+    isActive: (id) => active.has(id),
+    record: (id, patches) => {
+      if (patches.length) records.push({ id, patches });
+    },
+    overwrite: (patches) => {
+      if (!records.length) return;
+      const paths = patches.map(patchPath);
+      records = records
+        .map((record) => ({
+          id: record.id,
+          patches: record.patches.filter((patch) => {
+            const path = patchPath(patch);
+            return !paths.some((written) => pathsOverlap(written, path));
+          }),
+        }))
+        .filter((record) => record.patches.length > 0);
+    },
+    finish: (id) => {
+      active.delete(id);
+      const patches = records
+        .filter((record) => record.id === id)
+        .flatMap((record) => record.patches);
+      records = records.filter((record) => record.id !== id);
+      return patches;
+    },
+    apply: (state) =>
+      records.length
+        ? (apply(
+            state as object,
+            records.flatMap((record) => record.patches)
+          ) as S)
+        : state,
+  };
+}
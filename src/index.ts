@@ -1,12 +1,51 @@
 import type { StateCreator, StoreMutatorIdentifier } from 'zustand/vanilla';
 import {
   Travels,
+  TravelsError,
   type TravelsOptions,
   type RebasableTravelsControls,
   type RebasableManualTravelsControls,
   type Updater,
   type PatchesOption,
+  type TravelsHistory,
+  type TravelMetadata,
+  type TravelPatches,
 } from 'travels';
+import { apply, create, type Draft } from 'mutative';
+import { createCoalescer, type CoalesceOptions } from './coalesce';
+import { createNestedActions, type NestedActions } from './actions';
+import {
+  createBranchTree,
+  readHistoryEntries,
+  toTravelsHistory,
+  type HistoryEntry,
+} from './branches';
+import { createAsyncFlows, type AsyncTransactionOptions } from './flows';
+import { findCompactRanges, squashRange, type CompactOptions } from './squash';
+import { rebaseOnRemote } from './remote';
+import {
+  countExpired,
+  countOverBudget,
+  estimateEntrySize,
+  type TravelHistoryEntry,
+} from './budget';
+import type { TravelSnapshot } from './checkpoints';
+import {
+  createControls,
+  type TravelControls,
+  type TravelControlsExtension,
+  type TravelGuard,
+} from './controls';
+import {
+  createSliceStacks,
+  type SliceMode,
+  type SliceOptions,
+  type SliceStacks,
+} from './slices';
+import { createSubscriptions } from './subscriptions';
+import { createStateTracker } from './tracking';
+import { createSyncChannel, type SyncMessage, type SyncOptions } from './sync';
+import { assignDiff, isEqual, type TravelPath } from './utils';
 
 // ============================================================================
 // Type Definitions
@@ -14,34 +53,143 @@ import {
 type SetState<T> = {
   (
     partial: T | Partial<T> | ((state: T) => T | Partial<T> | void),
-    replace?: boolean | undefined
+    replace?: boolean | undefined,
+    action?: TravelAction
   ): void;
 };
 
-type TravelOptions<A extends boolean> = Omit<
-  TravelsOptions<false, A>,
-  'mutable' | 'controlledApply'
->;
+/**
+ * Label or metadata recorded with a history entry. A string is used as the
+ * label. Like zustand devtools actions, an object's `type` is used as the
+ * label when it has none.
+ */
+export type TravelAction = string | TravelMetadata;
+
+type TravelOptions<
+  T,
+  A extends boolean,
+  P extends PatchesOption = {},
+  L extends SliceOptions = SliceOptions,
+> = Omit<TravelsOptions<false, A, P>, 'mutable' | 'controlledApply'> & {
+  /**
+   * Track only these data paths. Everything else is left out of history.
+   */
+  include?: TravelPath[];
+  /**
+   * Leave these data paths out of history, e.g. UI-only fields.
+   */
+  exclude?: TravelPath[];
+  /**
+   * Merge rapid consecutive commits into a single history entry.
+   * Only applies when `autoArchive` is enabled.
+   */
+  coalesce?: CoalesceOptions<T>;
+  /**
+   * How to handle direct `store.setState(...)` calls, and writes of
+   * middleware composed outside `travel(...)`, that bypass the middleware
+   * `set`. By default they reach Zustand without touching history.
+   */
+  externalSetState?: ExternalSetStateMode;
+  /**
+   * Keep tracked state in sync with stores in other tabs that use the same
+   * BroadcastChannel name
+   */
+  sync?: SyncOptions;
+  /**
+   * Keep redo entries as a branch when an edit is made after undo, instead
+   * of discarding them. `maxHistory` then limits the entries of every
+   * branch together.
+   */
+  branching?: boolean;
+  /**
+   * Give top-level keys their own undo stacks, one per key or one per
+   * entry of the object at the key. Read their controls with
+   * `getControls(key)` or `getControls(key, id)`.
+   */
+  slices?: L;
+  /**
+   * Runs before `back`, `forward`, `go`, `reset`, and `rebase` on the
+   * store's controls. Return `false` to cancel the move. More hooks can be
+   * added with `getControls().guard()`.
+   */
+  beforeTravel?: TravelGuard['beforeTravel'];
+  /**
+   * Runs after each of those moves
+   */
+  afterTravel?: TravelGuard['afterTravel'];
+  /**
+   * Drop the oldest entries when the retained history is larger than this,
+   * as measured by `sizeOf`. Applies together with `maxHistory`.
+   */
+  maxHistoryBytes?: number;
+  /**
+   * Estimate the size of one history entry for `maxHistoryBytes` and
+   * `getHistoryUsage()`. By default the length of the entry's JSON.
+   */
+  sizeOf?: (entry: TravelHistoryEntry) => number;
+  /**
+   * Squash old entries into groups after each commit, e.g.
+   * `{ after: 50, groupSize: 10 }` merges every ten entries that are at
+   * least fifty positions behind
+   */
+  compact?: CompactOptions;
+  /**
+   * Drop entries recorded more than this many milliseconds ago
+   */
+  maxHistoryAge?: number;
+  /**
+   * Current time in milliseconds, by default `Date.now`. Used for entry and
+   * checkpoint timestamps, `coalesce` windows, and `maxHistoryAge`, so
+   * tests can fake time.
+   */
+  clock?: () => number;
+};
+
+/**
+ * - `track`: record the write as a history entry, like the middleware `set`
+ * - `rebase`: apply the write and make it the new history baseline
+ * - `ignore`: silently drop the write
+ * - `throw`: reject the write with an error
+ */
+export type ExternalSetStateMode = 'track' | 'rebase' | 'ignore' | 'throw';
+
+// `autoArchive`, `patchesOptions`, and `slices` of the options, carried by
+// the `zustand/travel` mutator so `getControls()` is typed to match
+type TravelTypeOptions<
+  A extends boolean = boolean,
+  P extends PatchesOption = PatchesOption,
+  L extends SliceOptions = SliceOptions,
+> = { autoArchive: A; patchesOptions: P; slices: L };
 
 type Travel = <
   T,
   Mps extends [StoreMutatorIdentifier, unknown][] = [],
   Mcs extends [StoreMutatorIdentifier, unknown][] = [],
   A extends boolean = true,
+  P extends PatchesOption = {},
+  L extends SliceOptions = {},
 >(
-  initializer: StateCreator<T, [...Mps, ['zustand/travel', never]], Mcs>,
-  options?: TravelOptions<A>
-) => StateCreator<T, Mps, [['zustand/travel', never], ...Mcs]>;
+  initializer: StateCreator<
+    T,
+    [...Mps, ['zustand/travel', TravelTypeOptions<A, P, L>]],
+    Mcs
+  >,
+  options?: TravelOptions<T, A, P, L>
+) => StateCreator<
+  T,
+  Mps,
+  [['zustand/travel', TravelTypeOptions<A, P, L>], ...Mcs]
+>;
 
 declare module 'zustand/vanilla' {
   interface StoreMutators<S, A> {
-    ['zustand/travel']: WithTravel<S>;
+    ['zustand/travel']: WithTravel<S, A>;
   }
 }
 
 type Write<T, U> = Omit<T, keyof U> & U;
 
-type WithTravel<S> = Write<S, StoreTravel<S>>;
+type WithTravel<S, O> = Write<S, StoreTravel<S, O>>;
 
 type SkipTwo<T> = T extends { length: 0 }
   ? []
@@ -64,6 +212,12 @@ type FunctionUpdater<T extends unknown[]> =
     ? (...args: A) => R | void
     : never;
 
+// Accept an action label unless another middleware already defines
+// extra setState arguments
+type SetStateArgs<T extends unknown[]> = T extends []
+  ? [action?: TravelAction]
+  : T;
+
 type StoreTravelSetState<S> = S extends {
   setState: {
     (...args: infer Sa1): infer Sr1;
@@ -80,12 +234,12 @@ type StoreTravelSetState<S> = S extends {
           | Partial<SetStateType<Sa2>>
           | FunctionUpdater<Sa1>,
         shouldReplace?: false,
-        ...args: SkipTwo<Sa1>
+        ...args: SetStateArgs<SkipTwo<Sa1>>
       ): Sr1;
       setState(
         nextStateOrUpdater: SetStateType<Sa2> | FunctionUpdater<Sa2>,
         shouldReplace: true,
-        ...args: SkipTwo<Sa2>
+        ...args: SetStateArgs<SkipTwo<Sa2>>
       ): Sr2;
     }
   : S extends {
@@ -96,10 +250,83 @@ type StoreTravelSetState<S> = S extends {
       }
     : {};
 
-type StoreTravel<S> = StoreTravelSetState<S> & {
-  getControls: () =>
-    | RebasableTravelsControls<S, false>
-    | RebasableManualTravelsControls<S, false>;
+type StoreState<S> = S extends { getState: () => infer T } ? T : never;
+
+type EntryOf<V> = V extends Record<string, infer E> ? E : never;
+
+// Keys of the `slices` option that may have mode `M`
+type SliceKeys<S, O, M extends SliceMode> = O extends { slices: infer L }
+  ? {
+      [K in keyof L]: M extends L[K] ? K : never;
+    }[keyof L] &
+      keyof StoreState<S> &
+      string
+  : never;
+
+type StoreControls<T, O> =
+  O extends TravelTypeOptions<infer A, infer P, any>
+    ? Controls<T, A, false, P>
+    : TravelControls<T>;
+
+type StoreTravel<S, O = TravelTypeOptions> = StoreTravelSetState<S> & {
+  getControls: {
+    /**
+     * Controls of a key in the `slices` option with its own undo stack
+     */
+    <K extends SliceKeys<S, O, 'single'>>(
+      slice: K
+    ): StoreControls<StoreState<S>[K], O>;
+    /**
+     * Controls of one entry of a key in `slices` with mode `'entries'`, or
+     * `undefined` when the entry does not exist
+     */
+    <K extends SliceKeys<S, O, 'entries'>>(
+      slice: K,
+      id: string
+    ): StoreControls<EntryOf<StoreState<S>[K]>, O> | undefined;
+    (): StoreControls<StoreState<S>, O>;
+  };
+  /**
+   * Group every `set` call made inside `fn` into a single history entry.
+   * Nested calls join the outermost transaction; if `fn` throws, all of its
+   * changes are rolled back and the error is re-thrown.
+   */
+  transaction: StoreTransaction;
+  /**
+   * Record every update an async flow makes with the `set` it receives as
+   * a single history entry when the returned promise settles. Updates show
+   * up in the store right away, and flows running side by side never share
+   * an entry. When `fn` rejects, its changes are rolled back unless
+   * `onError` is `'keep'`.
+   */
+  asyncTransaction: StoreAsyncTransaction<StoreState<S>>;
+  /**
+   * Stop broadcasting and receiving changes. A no-op without the `sync`
+   * option.
+   */
+  closeSync: () => void;
+};
+
+type StoreTransaction = {
+  (fn: () => void): void;
+  (action: TravelAction, fn: () => void): void;
+};
+
+type AsyncSet<T> = (
+  partial: T | Partial<T> | ((state: T) => T | Partial<T> | void),
+  replace?: boolean
+) => void;
+
+type StoreAsyncTransaction<T> = {
+  <R>(
+    fn: (set: AsyncSet<T>) => Promise<R>,
+    options?: AsyncTransactionOptions
+  ): Promise<R>;
+  <R>(
+    action: TravelAction,
+    fn: (set: AsyncSet<T>) => Promise<R>,
+    options?: AsyncTransactionOptions
+  ): Promise<R>;
 };
 
 export type Controls<
@@ -107,9 +334,10 @@ export type Controls<
   A extends boolean = false,
   F extends boolean = false,
   P extends PatchesOption = {},
-> = A extends true
+> = (A extends true
   ? RebasableTravelsControls<S, F, P>
-  : RebasableManualTravelsControls<S, F, P>;
+  : RebasableManualTravelsControls<S, F, P>) &
+  TravelControlsExtension<S>;
 
 // ============================================================================
 // Helper Functions
@@ -151,21 +379,681 @@ function separateStateAndActions<T extends Record<string, any>>(
   return { state, actions };
 }
 
+/**
+ * Normalize a `set` action into Travels metadata
+ */
+function toMetadata(action: TravelAction | undefined): TravelMetadata {
+  if (action === undefined) return {};
+  if (typeof action === 'string') return { label: action };
+  if (__DEV__) {
+    if (!action || typeof action !== 'object') {
+      throw new TypeError(
+        `[zustand-travel] Expected a label or metadata object as the action, received: ${typeof action}`
+      );
+    }
+  }
+  return action.label === undefined && typeof action.type === 'string'
+    ? { ...action, label: action.type }
+    : action;
+}
+
 // ============================================================================
 // Middleware Implementation
 // ============================================================================
 
 const travelImpl: Travel =
-  <T>(initializer: any, options: TravelOptions<any> = {}) =>
+  <T>(initializer: any, options: TravelOptions<T, any> = {}) =>
   (set, get, store) => {
     let travels: Travels<T, false, true>;
     let actions: Partial<T> = {};
+    // Actions inside slices of the state, e.g. `todos.add`
+    let nestedActions: NestedActions | undefined;
+    // Full data state returned by the initializer
+    let initialData: Partial<T> = {};
+    // Undo stacks of the `slices` option
+    let sliceStacks: SliceStacks;
     let isInitializing = true;
+    // Store data that untracked fields are read from while syncing
+    let pendingSource: unknown;
+    let transactionDepth = 0;
+
+    const {
+      include,
+      exclude,
+      coalesce,
+      externalSetState,
+      sync,
+      branching,
+      slices,
+      beforeTravel,
+      afterTravel,
+      maxHistoryBytes,
+      sizeOf = estimateEntrySize,
+      compact,
+      maxHistoryAge,
+      clock = () => Date.now(),
+      ...travelsOptions
+    } = options;
+    // Slices keep their own history, so the store's history leaves them out
+    const tracker = createStateTracker(
+      include,
+      slices
+        ? [...(exclude ?? []), ...Object.keys(slices).map((key) => [key])]
+        : exclude
+    );
+    const autoArchive = travelsOptions.autoArchive ?? true;
+
+    if (__DEV__) {
+      if (
+        maxHistoryBytes !== undefined &&
+        (typeof maxHistoryBytes !== 'number' ||
+          Number.isNaN(maxHistoryBytes) ||
+          maxHistoryBytes < 0)
+      ) {
+        throw new TypeError(
+          `[zustand-travel] maxHistoryBytes must be a non-negative number, received: ${maxHistoryBytes}`
+        );
+      }
+      if (
+        maxHistoryAge !== undefined &&
+        (typeof maxHistoryAge !== 'number' ||
+          Number.isNaN(maxHistoryAge) ||
+          maxHistoryAge < 0)
+      ) {
+        throw new TypeError(
+          `[zustand-travel] maxHistoryAge must be a non-negative number, received: ${maxHistoryAge}`
+        );
+      }
+      if (
+        compact &&
+        (!Number.isInteger(compact.after) ||
+          compact.after < 0 ||
+          !Number.isInteger(compact.groupSize) ||
+          compact.groupSize < 2)
+      ) {
+        throw new TypeError(
+          `[zustand-travel] compact needs an integer \`after\` of at least 0 and \`groupSize\` of at least 2, received: ${JSON.stringify(compact)}`
+        );
+      }
+      if (coalesce && !autoArchive) {
+        console.warn(
+          '[zustand-travel] coalesce has no effect when autoArchive is false'
+        );
+      }
+    }
+
+    // Coalescing keeps the latest entry open by archiving manually
+    const coalescer =
+      coalesce && autoArchive ? createCoalescer<T>(coalesce, clock) : undefined;
+
+    // Changes of unfinished async transactions, shown on top of Travels
+    const flows = createAsyncFlows<T>();
+
+    // In branching mode Travels holds the current branch only, and the
+    // history limit is applied to the whole tree instead
+    const branches = branching ? createBranchTree() : undefined;
+    const maxHistory = travelsOptions.maxHistory ?? 10;
+
+    // Set while the middleware writes to Zustand, so its own writes skip the
+    // external setState handling
+    let isSyncing = false;
+
+    // Listeners stay subscribed when the Travels instance is replaced
+    const subscriptions = createSubscriptions(() => travels);
+    const { subscribe } = subscriptions;
+
+    const createTravels = (state: T, history?: TravelsHistory) =>
+      new Travels(state, {
+        ...travelsOptions,
+        history,
+        autoArchive: coalescer ? false : autoArchive,
+        ...(branches && {
+          maxHistory: Number.MAX_SAFE_INTEGER,
+          // Nothing is discarded, redo entries become a branch
+          onBranchDiscard: undefined,
+        }),
+        mutable: false, // Zustand handles immutability
+        controlledApply: undefined, // Travels owns middleware state updates
+      });
+
+    // Create Travels at `base` with `entries` as history, then move to
+    // `position`, so `reset()` still returns to `base`
+    const rebuildTravels = (
+      base: T,
+      entries: HistoryEntry[],
+      position: number
+    ) => {
+      const next = createTravels(base, toTravelsHistory(entries));
+      next.go(position);
+      return next;
+    };
+
+    const readEntries = () => readHistoryEntries(travels);
+
+    // Replace the Zustand state without the external setState handling
+    const writeStore = (nextState: T) => {
+      isSyncing = true;
+      try {
+        (store.setState as SetState<T>)(nextState, true);
+      } finally {
+        isSyncing = false;
+      }
+    };
+
+    // Merge tracked state with untracked fields and actions for Zustand
+    const syncStore = (state: T, source: unknown = store.getState()) => {
+      const shown = flows.apply(state);
+      const data = tracker ? tracker.merge(shown, source) : shown;
+      // Merge state with actions and replace entirely
+      writeStore({
+        ...(nestedActions ? nestedActions.merge(data) : data),
+        ...actions,
+      } as T);
+    };
+
+    // Whether a commit in the current transaction has recorded metadata
+    let isTransactionStamped = false;
+
+    // Metadata for the next commit. Unlabeled commits that extend an open
+    // entry record none, so the entry keeps its label and first timestamp.
+    const entryMetadata = (
+      action: TravelAction | undefined,
+      target: { canArchive: () => boolean } = travels
+    ): TravelMetadata | undefined => {
+      const isEntryOpen =
+        transactionDepth > 0 ? isTransactionStamped : target.canArchive();
+      if (action === undefined && isEntryOpen) return undefined;
+      if (transactionDepth > 0) isTransactionStamped = true;
+      return { timestamp: clock(), ...toMetadata(action) };
+    };
+
+    // Commit an update to Travels, keeping Zustand in sync when Travels
+    // does not publish an event for it
+    const commit = (
+      updater: Updater<T>,
+      source?: unknown,
+      withoutHistory = false,
+      action?: TravelAction
+    ) => {
+      const previous = travels.getState();
+      // Transactions keep the branch tree within the limit themselves
+      const isRoot = transactionDepth === 0 && !withoutHistory;
+      if (isRoot) {
+        trimBranch();
+        maintainHistory();
+      }
+      pendingSource = source;
+      try {
+        if (withoutHistory) {
+          travels.replaceStateWithoutHistory(updater);
+        } else {
+          travels.setState(updater, entryMetadata(action));
+        }
+      } finally {
+        pendingSource = undefined;
+      }
+      if (isRoot) {
+        branches?.prune(maxHistory);
+        maintainHistory();
+      }
+      const changed = travels.getState() !== previous;
+      // Events are deferred inside transactions, and an update that only
+      // touches untracked fields produces no event at all
+      if (changed ? transactionDepth > 0 : source !== undefined) {
+        syncStore(travels.getState(), source);
+      }
+    };
+
+    // Data part of store state or of a `set` value, without actions at any
+    // depth
+    const separateData = (value: unknown): Partial<T> => {
+      const { state } = separateStateAndActions(value as Partial<T>);
+      return nestedActions ? nestedActions.strip(state) : state;
+    };
+
+    // Resolve the next full data state the way the middleware `set` would
+    const resolveData = (
+      updater: T | Partial<T> | ((state: T) => T | Partial<T> | void),
+      replace?: boolean
+    ): T => {
+      const current =
+        tracker || flows.size
+          ? separateData(store.getState())
+          : travels.getState();
+      if (typeof updater === 'function') {
+        return create(current as T, updater as (draft: Draft<T>) => T | void, {
+          mark: travelsOptions.mark,
+        }) as T;
+      }
+      const state = separateData(updater);
+      return (replace ? state : { ...current, ...state }) as T;
+    };
+
+    // Replace the data state and make it the new history baseline
+    // Commit slice values to their own stacks and return the data with
+    // their resulting states. Inside a transaction they wait for its end.
+    const commitSlices = (
+      data: T,
+      action?: TravelAction,
+      withoutHistory = false
+    ) =>
+      slices && transactionDepth === 0
+        ? (sliceStacks.commit(
+            data as Record<string, unknown>,
+            (target) => entryMetadata(action, target),
+            withoutHistory
+          ) as T)
+        : data;
+
+    // Updater that writes the changes from the shown tracked state to
+    // `nextTracked`. Changes of unfinished async transactions stay out of
+    // it, and those transactions lose the paths it writes.
+    const writeTracked = (nextTracked: T): Updater<T> => {
+      const previous = travels.getState();
+      if (!flows.size) {
+        return ((draft: T) => {
+          assignDiff(draft, previous, nextTracked);
+        }) as Updater<T>;
+      }
+      const base = flows.apply(previous);
+      const [, patches] = create(
+        base,
+        (draft) => {
+          assignDiff(draft, base, nextTracked);
+        },
+        { enablePatches: true }
+      );
+      flows.overwrite(patches);
+      return ((draft: T) => {
+        apply(draft as object, patches);
+      }) as Updater<T>;
+    };
+
+    const rebaseData = (data: T) => {
+      const nextData = commitSlices(data, undefined, true);
+      const nextTracked = tracker ? tracker.split(nextData) : nextData;
+      coalescer?.reset();
+      commit(writeTracked(nextTracked), tracker ? nextData : undefined, true);
+    };
+
+    // End an open coalescing window so the next commit starts a new entry
+    const closeCoalescedEntry = () => {
+      if (!coalescer) return;
+      coalescer.reset();
+      if (travels.canArchive()) travels.archive();
+    };
+
+    // Record a state that is no longer in history, e.g. a checkpoint's
+    const restore = (state: T, metadata: TravelMetadata) => {
+      closeCoalescedEntry();
+      const previous = travels.getState();
+      commit(
+        ((draft: T) => {
+          assignDiff(draft, previous, state);
+        }) as Updater<T>,
+        undefined,
+        false,
+        metadata
+      );
+    };
+
+    // Commit the next full data state, routing only tracked paths to Travels
+    const commitData = (data: T, action?: TravelAction) => {
+      const nextData = commitSlices(data, action);
+      const previous = travels.getState();
+      const nextTracked = tracker ? tracker.split(nextData) : nextData;
+      if (
+        coalescer &&
+        transactionDepth === 0 &&
+        coalescer.next(previous, nextTracked) &&
+        travels.canArchive()
+      ) {
+        travels.archive();
+      }
+      commit(
+        writeTracked(nextTracked),
+        tracker ? nextData : undefined,
+        false,
+        action
+      );
+    };
+
+    // Move every subscription to a new Travels instance. With an event
+    // type, listeners are told that the history was replaced.
+    const replaceTravels = (next: typeof travels, type?: string) => {
+      travels = next;
+      coalescer?.reset();
+      subscriptions.move(next);
+      if (!type) return;
+      // Untracked fields keep their values, or the initial ones while the
+      // store is still being created
+      pendingSource = store.getState() ?? initialData;
+      try {
+        subscriptions.announce(type);
+      } finally {
+        pendingSource = undefined;
+      }
+    };
+
+    // Replace the tracked state and its history with a persisted snapshot
+    const hydrate = (snapshot: TravelSnapshot<T>) => {
+      if (transactionDepth > 0) {
+        throw new Error(
+          '[zustand-travel] Cannot hydrate history inside a transaction'
+        );
+      }
+      const { state, patches, position, metadata } = snapshot;
+      replaceTravels(
+        createTravels(state, { patches, position, metadata }),
+        'hydrate'
+      );
+      maintainHistory();
+    };
+
+    // Make room for one more entry on the current branch by dropping its
+    // oldest ones
+    const trimBranch = () => {
+      if (!branches) return;
+      const position = travels.getPosition();
+      // A commit that extends the open entry adds none
+      const count = Math.min(
+        position,
+        position + (travels.canArchive() ? 0 : 1) - maxHistory
+      );
+      if (count <= 0) return;
+      const entries = branches.getEntries().slice(count);
+      const base = travels.getHistory()[count];
+      branches.trim(count);
+      replaceTravels(rebuildTravels(base, entries, position - count));
+    };
+
+    // Drop the oldest `count` entries, which are all before the current
+    // position. `reset()` then returns to the oldest state that is left.
+    const dropOldest = (count: number) => {
+      const position = travels.getPosition();
+      const base = travels.getHistory()[count];
+      branches?.trim(count);
+      replaceTravels(
+        rebuildTravels(base, readEntries().slice(count), position - count),
+        'trimHistory'
+      );
+    };
+
+    // Drop entries older than `maxHistoryAge`. Redo entries are kept, and
+    // an open entry waits until it is closed.
+    const trimToAge = () => {
+      if (maxHistoryAge === undefined || travels.canArchive()) return;
+      const count = countExpired(
+        readEntries(),
+        clock() - maxHistoryAge,
+        travels.getPosition()
+      );
+      if (count > 0) dropOldest(count);
+    };
+
+    // Drop the oldest entries until the rest fit in `maxHistoryBytes`, the
+    // same way
+    const trimToBudget = () => {
+      if (maxHistoryBytes === undefined || travels.canArchive()) return;
+      const count = countOverBudget(
+        readEntries().map(sizeOf),
+        maxHistoryBytes,
+        travels.getPosition()
+      );
+      if (count === 0) return;
+      dropOldest(count);
+      const message = `[zustand-travel] History exceeded maxHistoryBytes (${maxHistoryBytes}). Dropped the ${count} oldest ${count === 1 ? 'entry' : 'entries'}.`;
+      if (travelsOptions.onWarning) {
+        travelsOptions.onWarning({ code: 'HISTORY_TRIMMED', message });
+      } else if (__DEV__) {
+        console.warn(message);
+      }
+    };
+
+    // Merge each range of entries into one, keeping the initial state
+    const squashHistory = (
+      ranges: [number, number][],
+      metadata?: TravelMetadata
+    ) => {
+      const base = travels.getHistory()[0];
+      let entries = readEntries();
+      let position = travels.getPosition();
+      // From the latest range back, so earlier positions stay valid
+      for (let index = ranges.length - 1; index >= 0; index -= 1) {
+        const [from, to] = ranges[index];
+        ({ entries, position } = squashRange(
+          entries,
+          position,
+          from,
+          to,
+          metadata
+        ));
+        branches?.squash(from, to, entries[from]);
+      }
+      replaceTravels(rebuildTravels(base, entries, position), 'squash');
+    };
+
+    const squash = (from: number, to: number, metadata?: TravelMetadata) => {
+      if (transactionDepth > 0) {
+        throw new Error(
+          '[zustand-travel] Cannot squash history inside a transaction'
+        );
+      }
+      squashHistory([[from, to]], metadata);
+    };
+
+    // Apply a change made outside this store, e.g. on a server, below the
+    // local history, dropping the entries that no longer apply
+    const rebaseRemote = (patches: TravelPatches['patches'][number]) => {
+      if (transactionDepth > 0) {
+        throw new Error(
+          '[zustand-travel] Cannot apply remote changes inside a transaction'
+        );
+      }
+      const { state, entries, position, dropped } = rebaseOnRemote(
+        travels.getState(),
+        readEntries(),
+        travels.getPosition(),
+        patches
+      );
+      // The remote change wins over unfinished async transactions
+      flows.overwrite(patches);
+      replaceTravels(rebuildTravels(state, entries, position), 'applyRemote');
+      return { dropped };
+    };
+
+    // Squash old entries as set by the `compact` option. An open entry
+    // waits until it is closed, like with `maxHistoryBytes`.
+    const compactHistory = () => {
+      if (!compact || travels.canArchive()) return;
+      const ranges = findCompactRanges(
+        readEntries(),
+        travels.getPosition(),
+        compact
+      );
+      if (ranges.length) squashHistory(ranges);
+    };
+
+    // Keep history within the `maxHistoryAge`, `compact`, and
+    // `maxHistoryBytes` options
+    const maintainHistory = () => {
+      trimToAge();
+      compactHistory();
+      trimToBudget();
+    };
+
+    const switchBranch = (id: number) => {
+      if (transactionDepth > 0) {
+        throw new Error(
+          '[zustand-travel] Cannot switch branches inside a transaction'
+        );
+      }
+      const entries = branches!.resolve(id);
+      if (!entries) return false;
+      const next = rebuildTravels(
+        travels.getHistory()[0],
+        entries,
+        entries.length
+      );
+      branches!.activate(entries);
+      replaceTravels(next, 'switchBranch');
+      return true;
+    };
+
+    // Set while a change from another tab is applied, so it is not
+    // broadcast back
+    let isApplyingRemote = false;
+
+    const applyRemote = (message: SyncMessage) => {
+      isApplyingRemote = true;
+      try {
+        const updater =
+          'patches' in message
+            ? (((draft: T) => {
+                for (const group of message.patches) {
+                  apply(draft as object, group);
+                }
+              }) as Updater<T>)
+            : writeTracked(message.state as T);
+        if (sync!.policy === 'rebase') {
+          coalescer?.reset();
+          commit(updater, undefined, true);
+        } else {
+          // Keep the remote change out of an open coalescing window
+          closeCoalescedEntry();
+          commit(updater);
+        }
+      } catch (error) {
+        if (sync!.onError) {
+          sync!.onError(error);
+        } else if (__DEV__) {
+          console.error(
+            '[zustand-travel] Failed to apply a change from another tab:',
+            error
+          );
+        }
+      } finally {
+        isApplyingRemote = false;
+      }
+    };
+
+    const transaction: StoreTransaction = (
+      actionOrFn: TravelAction | (() => void),
+      maybeFn?: () => void
+    ) => {
+      const fn = typeof actionOrFn === 'function' ? actionOrFn : maybeFn!;
+      const action = typeof actionOrFn === 'function' ? undefined : actionOrFn;
+      const before = store.getState();
+      if (transactionDepth === 0) {
+        // Keep an open coalescing window out of the transaction's entry
+        closeCoalescedEntry();
+        trimBranch();
+        maintainHistory();
+        isTransactionStamped = false;
+      }
+      // Without an action, the first commit inside records the metadata
+      const metadata = action === undefined ? undefined : entryMetadata(action);
+      transactionDepth += 1;
+      try {
+        if (metadata) {
+          travels.transaction(metadata, fn);
+        } else {
+          travels.transaction(fn);
+        }
+      } catch (error) {
+        // Travels rolled back tracked state; roll back untracked fields too
+        syncStore(travels.getState(), before);
+        throw error instanceof TravelsError &&
+          error.code === 'TRANSACTION_FAILED' &&
+          error.cause !== undefined
+          ? error.cause
+          : error;
+      } finally {
+        transactionDepth -= 1;
+      }
+      if (transactionDepth > 0) return;
+      branches?.prune(maxHistory);
+      maintainHistory();
+      const data = store.getState() as unknown as T;
+      const nextData = commitSlices(data, action);
+      if (nextData !== data) syncStore(travels.getState(), nextData);
+    };
+
+    // `set` of one async transaction. Tracked changes are kept out of
+    // history until the flow ends; slices record theirs right away.
+    const createAsyncSet =
+      (id: number): AsyncSet<T> =>
+      (updater, replace) => {
+        if (!flows.isActive(id)) {
+          throw new Error(
+            '[zustand-travel] Cannot update state after its async transaction has finished'
+          );
+        }
+        const data = commitSlices(resolveData(updater, replace));
+        const base = flows.apply(travels.getState());
+        const nextTracked = tracker ? tracker.split(data) : data;
+        const [, patches] = create(
+          base,
+          (draft) => {
+            assignDiff(draft, base, nextTracked);
+          },
+          { enablePatches: true }
+        );
+        flows.record(id, patches);
+        syncStore(travels.getState(), data);
+      };
+
+    // Record a finished flow's changes as one entry, or drop them
+    const finishFlow = (id: number, keep: boolean, action?: TravelAction) => {
+      const patches = flows.finish(id);
+      if (!patches.length) return;
+      if (!keep) {
+        syncStore(travels.getState());
+        return;
+      }
+      closeCoalescedEntry();
+      commit(
+        ((draft: T) => {
+          apply(draft as object, patches);
+        }) as Updater<T>,
+        store.getState(),
+        false,
+        action
+      );
+    };
+
+    const asyncTransaction = async <R>(
+      actionOrFn: TravelAction | ((set: AsyncSet<T>) => Promise<R>),
+      fnOrOptions?:
+        | ((set: AsyncSet<T>) => Promise<R>)
+        | AsyncTransactionOptions,
+      maybeOptions?: AsyncTransactionOptions
+    ): Promise<R> => {
+      const hasAction = typeof actionOrFn !== 'function';
+      const action = hasAction ? actionOrFn : undefined;
+      const fn = (hasAction ? fnOrOptions : actionOrFn) as (
+        set: AsyncSet<T>
+      ) => Promise<R>;
+      const flowOptions = (hasAction ? maybeOptions : fnOrOptions) as
+        | AsyncTransactionOptions
+        | undefined;
+      const id = flows.start();
+      let result: R;
+      try {
+        result = await fn(createAsyncSet(id));
+      } catch (error) {
+        finishFlow(id, flowOptions?.onError === 'keep', action);
+        throw error;
+      }
+      finishFlow(id, true, action);
+      return result;
+    };
 
     // Custom set function that integrates with Travels
     const travelSet: SetState<T> = (
       updater: T | Partial<T> | ((state: T) => T | Partial<T> | void),
-      replace?: boolean | undefined
+      replace?: boolean | undefined,
+      action?: TravelAction
     ) => {
       // During initialization, bypass travels
       if (isInitializing) {
@@ -182,24 +1070,35 @@ const travelImpl: Travel =
       }
 
       try {
+        if (tracker || coalescer || flows.size) {
+          // Resolve the next full data state first, so updaters can read
+          // untracked fields and coalescing can inspect the result, then
+          // diff the tracked part into Travels
+          commitData(resolveData(updater, replace), action);
+          return;
+        }
+
         // Handle different updater patterns
         if (typeof updater === 'function') {
           // Pass function directly to travels.setState
           // Travels will detect if it's a mutation or return-value function
-          travels.setState(updater as Updater<T>);
+          commit(updater as Updater<T>, undefined, false, action);
         } else {
           // Direct value or partial update
-          const { state } = separateStateAndActions(
-            updater as Record<string, any>
-          );
+          const state = separateData(updater);
           if (replace) {
             // set(value, true) - complete replacement
-            travels.setState(state as Updater<T>);
+            commit(state as Updater<T>, undefined, false, action);
           } else {
             // set({ x: y }) - partial update, convert to mutation
-            travels.setState(((draft: T) => {
-              Object.assign(draft as object, state);
-            }) as Updater<T>);
+            commit(
+              ((draft: T) => {
+                Object.assign(draft as object, state);
+              }) as Updater<T>,
+              undefined,
+              false,
+              action
+            );
           }
         }
       } catch (error) {
@@ -226,31 +1125,185 @@ const travelImpl: Travel =
       }
 
       // Separate data state from action functions
-      const { state: dataState, actions: extractedActions } =
+      const { state: topLevelState, actions: extractedActions } =
         separateStateAndActions(initialState);
 
       actions = extractedActions;
+      nestedActions = createNestedActions(topLevelState);
+      const dataState = (nestedActions?.initialState ??
+        topLevelState) as Partial<T>;
+      initialData = dataState;
 
-      // Create Travels instance with data state only
-      travels = new Travels(dataState as T, {
-        ...options,
-        mutable: false, // Zustand handles immutability
-        controlledApply: undefined, // Travels owns middleware state updates
-      });
+      // Create Travels instance with tracked data state only
+      travels = createTravels(
+        (tracker ? tracker.split(dataState) : dataState) as T,
+        travelsOptions.history
+      );
+
+      sliceStacks = createSliceStacks(
+        slices ?? {},
+        dataState as Record<string, unknown>,
+        {
+          manual: !autoArchive,
+          clock,
+          createTravels: (state, history) =>
+            new Travels(state, {
+              ...travelsOptions,
+              // The history options restore the store's own history
+              history,
+              initialPatches: undefined,
+              initialPosition: undefined,
+              mutable: false,
+              controlledApply: undefined,
+            }),
+          // Undo and redo in a slice leave the rest of the store alone
+          write: (key, id, value) => {
+            const current = store.getState() as Record<string, any>;
+            syncStore(travels.getState(), {
+              ...current,
+              [key]:
+                id === undefined ? value : { ...current[key], [id]: value },
+            });
+          },
+        }
+      );
 
       // Mark initialization as complete
       isInitializing = false;
 
+      if (branches) {
+        // Keep the tree in step with Travels before any other listener runs
+        branches.load(readEntries(), travels.getPosition());
+        subscribe(({ type, position }) => {
+          branches.sync(type, position, readEntries);
+        });
+      }
+
+      // Restored history may be over the limits
+      maintainHistory();
+
+      // Coalescing archives internally but keeps auto-archive controls
+      const controls = createControls(() => travels, {
+        manual: !autoArchive,
+        subscribe,
+        hydrate,
+        restore,
+        squash,
+        applyRemote: rebaseRemote,
+        replace: (state) => {
+          coalescer?.reset();
+          commit(writeTracked(state), undefined, true);
+        },
+        clock,
+        sizeOf,
+        maxHistoryBytes,
+        getPendingTransactionCount: () => flows.size,
+        branches: branches && {
+          getBranches: branches.getBranches,
+          switchBranch,
+          getHistoryTree: branches.getTree,
+        },
+      });
+
+      if (beforeTravel || afterTravel) {
+        controls.guard({ beforeTravel, afterTravel });
+      }
+
       // Subscribe to travels changes and sync to Zustand
-      travels.subscribe(({ state }) => {
-        const nextState = { ...state, ...actions } as T;
-        // Merge state with actions and replace entirely
-        (store.setState as SetState<T>)(nextState, true);
+      subscribe(({ state }) => {
+        syncStore(state, pendingSource);
       });
 
+      const channel = sync && createSyncChannel(sync, applyRemote);
+      if (channel) {
+        // Tracked state the other tabs are known to have
+        let sharedState = travels.getState();
+        // Broadcast every tracked change: commits, navigation, and reset.
+        // Changes published without patches, e.g. by `hydrate()`, are sent
+        // as the whole state.
+        subscribe(({ state, patches: { patches } }) => {
+          const previous = sharedState;
+          sharedState = state;
+          if (isApplyingRemote) return;
+          if (patches.length) {
+            channel.post({ patches });
+          } else if (!isEqual(state, previous)) {
+            channel.post({ state });
+          }
+        });
+      }
+
+      if (externalSetState) {
+        const setStoreState = store.setState as SetState<T>;
+        // Resolve the next data state the way Zustand would: an updater
+        // gets the whole store state, and its result is merged unless
+        // `replace`. Functions in the result are dropped, so the store keeps
+        // its own actions.
+        const resolveExternal = (
+          updater: T | Partial<T> | ((state: T) => T | Partial<T> | void),
+          replace?: boolean
+        ): T => {
+          const current = store.getState() as unknown as T;
+          const next =
+            typeof updater === 'function'
+              ? create(current, updater as (draft: Draft<T>) => T | void, {
+                  mark: travelsOptions.mark,
+                })
+              : updater;
+          const data = separateData(next);
+          return (replace ? data : { ...separateData(current), ...data }) as T;
+        };
+        // Handle a write that bypasses the middleware `set`. `previous` is
+        // the state before a write that has already reached Zustand.
+        const writeExternal = (
+          updater: T | Partial<T> | ((state: T) => T | Partial<T> | void),
+          replace?: boolean,
+          action?: TravelAction,
+          previous?: T
+        ) => {
+          switch (externalSetState) {
+            case 'track':
+              travelSet(resolveExternal(updater, replace), true, action);
+              return;
+            case 'rebase':
+              rebaseData(resolveExternal(updater, replace));
+              return;
+            default:
+              // 'ignore' and 'throw' drop the write
+              if (previous) writeStore(previous);
+              if (externalSetState === 'throw') {
+                throw new Error(
+                  '[zustand-travel] A write outside the middleware `set` bypasses history. Use the middleware `set` inside an action instead.'
+                );
+              }
+              return;
+          }
+        };
+        store.setState = ((
+          updater: T | Partial<T> | ((state: T) => T | Partial<T> | void),
+          replace?: boolean,
+          action?: TravelAction
+        ) => {
+          if (isSyncing) {
+            return setStoreState(updater, replace);
+          }
+          writeExternal(updater, replace, action);
+        }) as typeof store.setState;
+        // Middleware composed outside `travel(...)`, such as `persist` and
+        // `devtools`, writes through the `set` it captured instead
+        store.subscribe((state: unknown, previous: unknown) => {
+          if (isSyncing) return;
+          writeExternal(state as T, true, undefined, previous as T);
+        });
+      }
+
       // Add getControls method to store
       Object.assign(store, {
-        getControls: () => travels.getControls(),
+        getControls: (slice?: string, id?: string) =>
+          slice === undefined ? controls : sliceStacks.getControls(slice, id),
+        transaction,
+        asyncTransaction,
+        closeSync: () => channel?.close(),
       });
 
       // Return initial state with actions
@@ -302,14 +1355,56 @@ const travelImpl: Travel =
  * ```
  *
  * @param initializer - The state creator function
- * @param options - Travels options (maxHistory, autoArchive, etc.)
+ * @param options - Travels options (maxHistory, autoArchive, etc.) plus
+ * `include` / `exclude` path filters for tracked state
  */
 export const travel = travelImpl as Travel;
 
+export { bindTravelShortcuts } from './shortcuts';
+export { connectDevtools } from './devtools';
+export { defaultDiffFormatter, formatDiff } from './diff';
+
 // ============================================================================
 // Type Exports
 // ============================================================================
 
+export type { TravelBranch, TravelHistoryNode } from './branches';
+export type { TravelHistoryEntry, TravelHistoryUsage } from './budget';
+export type { TravelCheckpoint, TravelSnapshot } from './checkpoints';
+export type { CoalesceOptions } from './coalesce';
+export type { TravelChange, TravelDiffFormatter } from './diff';
+export type { AsyncErrorPolicy, AsyncTransactionOptions } from './flows';
+export type {
+  TravelDivergence,
+  TravelRecordedStep,
+  TravelRecorder,
+  TravelRecording,
+  TravelReplay,
+  TravelReplayPlayOptions,
+} from './recording';
+export type { TravelDroppedEntry, TravelRemoteResult } from './remote';
+export type { TravelRevertConflict, TravelRevertResult } from './revert';
+export type { SliceMode, SliceOptions } from './slices';
+export type { CompactOptions } from './squash';
+export type { SyncOptions, SyncPolicy } from './sync';
+export type {
+  TravelBranchControls,
+  TravelControlsExtension,
+  TravelEntry,
+  TravelGuard,
+  TravelMove,
+  TravelStatus,
+  TravelStore,
+} from './controls';
+export type {
+  DevtoolsConnection,
+  DevtoolsExtension,
+  DevtoolsMessage,
+  DevtoolsOptions,
+} from './devtools';
+export type { TravelShortcutKeymap, TravelShortcutOptions } from './shortcuts';
+export type { TravelPath } from './utils';
+
 /**
  * Re-export types from travels for convenience
  */
@@ -346,12 +1441,27 @@ declare module 'zustand/vanilla' {
      * controls.rebase();   // Make the current state the new baseline
      * ```
      */
-    getControls?: <
-      F extends boolean = false,
-      A extends boolean = true,
-    >() => A extends true
-      ? RebasableTravelsControls<T, F>
-      : RebasableManualTravelsControls<T, F>;
+    getControls?: () => TravelControls<T>;
+    /**
+     * Group every `set` call made inside `fn` into a single history entry
+     *
+     * @example
+     * ```typescript
+     * useStore.transaction(() => {
+     *   addItem(item);
+     *   selectItem(item.id);
+     *   closeDialog();
+     * });
+     * ```
+     */
+    transaction?: {
+      (fn: () => void): void;
+      (action: TravelAction, fn: () => void): void;
+    };
+    /**
+     * Close the cross-tab sync channel opened by the `sync` option
+     */
+    closeSync?: () => void;
   }
 }
 
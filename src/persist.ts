@@ -0,0 +1,134 @@
+import type { StateCreator, StoreMutatorIdentifier } from 'zustand/vanilla';
+import {
+  createJSONStorage,
+  persist,
+  type PersistOptions,
+  type PersistStorage,
+} from 'zustand/middleware';
+import { Travels, type TravelsDeserializeOptions } from 'travels';
+import type { TravelSnapshot } from './checkpoints';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type PersistTravelOptions<T> = Omit<
+  PersistOptions<T, TravelSnapshot<T>>,
+  'storage' | 'partialize' | 'merge'
+> & {
+  /**
+   * Where to store the serialized history envelope, by default
+   * `createJSONStorage(() => localStorage)`
+   */
+  storage?: PersistStorage<TravelSnapshot<T>>;
+  /**
+   * Options for `Travels.deserialize(...)`, e.g. `validation: 'semantic'`
+   * for snapshots from an untrusted source, or a `fallback` snapshot
+   */
+  deserialize?: TravelsDeserializeOptions<T>;
+};
+
+type PersistTravel = <
+  T,
+  Mps extends [StoreMutatorIdentifier, unknown][] = [],
+  Mcs extends [StoreMutatorIdentifier, unknown][] = [],
+>(
+  initializer: StateCreator<T, [...Mps, ['zustand/persist', unknown]], Mcs>,
+  options: PersistTravelOptions<T>
+) => StateCreator<T, Mps, [['zustand/persist', TravelSnapshot<T>], ...Mcs]>;
+
+type PersistTravelImpl = <T>(
+  initializer: StateCreator<T, [], []>,
+  options: PersistTravelOptions<T>
+) => StateCreator<T, [], []>;
+
+// ============================================================================
+// Middleware Implementation
+// ============================================================================
+
+const persistTravelImpl: PersistTravelImpl =
+  <T>(
+    initializer: StateCreator<T, [], []>,
+    options: PersistTravelOptions<T>
+  ): StateCreator<T, [], []> =>
+  (set, get, api) => {
+    const {
+      storage = createJSONStorage<TravelSnapshot<T>>(() => localStorage),
+      deserialize,
+      ...persistOptions
+    } = options;
+
+    const getControls = () => api.getControls?.();
+
+    // Swap the persisted state for the history envelope on every write
+    const travelStorage: PersistStorage<TravelSnapshot<T>> | undefined =
+      storage && {
+        getItem: (name) => storage.getItem(name),
+        setItem: (name, value) => {
+          const controls = getControls();
+          // Writes from the initializer happen before history exists
+          if (!controls) return;
+          return storage.setItem(name, {
+            ...value,
+            state: controls.serialize(),
+          });
+        },
+        removeItem: (name) => storage.removeItem(name),
+      };
+
+    return persist<T, [], [], TravelSnapshot<T>>(
+      (...args) => {
+        const initialState = initializer(...args);
+        if (__DEV__) {
+          if (!getControls()) {
+            throw new TypeError(
+              '[zustand-travel] persistTravel() must wrap a store creator that uses the travel middleware'
+            );
+          }
+        }
+        return initialState;
+      },
+      {
+        ...persistOptions,
+        storage: travelStorage,
+        merge: (persistedState, currentState) => {
+          if (persistedState === undefined) return currentState;
+          getControls()?.hydrate({
+            ...Travels.deserialize<T>(persistedState, deserialize),
+            // Travels.deserialize() keeps only the history fields
+            checkpoints: (persistedState as TravelSnapshot<T>).checkpoints,
+          });
+          // Hydration already wrote the restored state to the store
+          return api.getState();
+        },
+      }
+    )(set, get, api);
+  };
+
+/**
+ * Zustand `persist` for stores created with `travel`. It stores the history
+ * envelope from `controls.serialize()` instead of plain state, so undo,
+ * redo, and checkpoints keep working after a reload.
+ *
+ * @example
+ * ```typescript
+ * import { create } from 'zustand';
+ * import { travel } from 'zustand-travel';
+ * import { persistTravel } from 'zustand-travel/persist';
+ *
+ * const useStore = create<State>()(
+ *   persistTravel(
+ *     travel((set) => ({
+ *       count: 0,
+ *       increment: () => set((state) => { state.count += 1 }),
+ *     })),
+ *     { name: 'counter' }
+ *   )
+ * );
+ * ```
+ *
+ * @param initializer - A state creator wrapped with `travel`
+ * @param options - Zustand persist options, plus `deserialize` options for
+ * `Travels.deserialize(...)`
+ */
+export const persistTravel = persistTravelImpl as unknown as PersistTravel;
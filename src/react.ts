@@ -0,0 +1,127 @@
+import { useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import type { TravelStatus, TravelStore } from './controls';
+import { bindTravelShortcuts, type TravelShortcutOptions } from './shortcuts';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+// Controls of the store passed to a hook, typed with its state and options
+type Controls<Store extends TravelStore> = ReturnType<Store['getControls']>;
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+const selectStatus = (status: TravelStatus) => status;
+
+/**
+ * Subscribe to the history status of a store.
+ *
+ * The component re-renders only when the selected value changes, compared
+ * with `Object.is` unless `equalityFn` is provided.
+ *
+ * @example
+ * ```tsx
+ * const historyLength = useTravelStatus(useStore, (s) => s.historyLength);
+ * ```
+ */
+export function useTravelStatus(store: TravelStore): TravelStatus;
+export function useTravelStatus<U>(
+  store: TravelStore,
+  selector: (status: TravelStatus) => U,
+  equalityFn?: (a: U, b: U) => boolean
+): U;
+export function useTravelStatus(
+  store: TravelStore,
+  selector: (status: TravelStatus) => unknown = selectStatus,
+  equalityFn: (a: unknown, b: unknown) => boolean = Object.is
+): unknown {
+  const controls = store.getControls();
+  const cache = useRef<{
+    status: TravelStatus;
+    selector: (status: TravelStatus) => unknown;
+    selected: unknown;
+  }>(undefined);
+
+  const getSnapshot = () => {
+    const status = controls.getStatus();
+    const cached = cache.current;
+    // A new selector may select something else from the same status
+    if (cached && cached.status === status && cached.selector === selector) {
+      return cached.selected;
+    }
+    const selected = selector(status);
+    cache.current = {
+      status,
+      selector,
+      selected:
+        cached && equalityFn(cached.selected, selected)
+          ? cached.selected
+          : selected,
+    };
+    return cache.current.selected;
+  };
+
+  return useSyncExternalStore(controls.subscribe, getSnapshot, getSnapshot);
+}
+
+/**
+ * Get the store controls together with reactive history status.
+ *
+ * @example
+ * ```tsx
+ * const { controls, canBack, canForward } = useTravelControls(useStore);
+ *
+ * <button onClick={() => controls.back()} disabled={!canBack}>Undo</button>
+ * ```
+ */
+export function useTravelControls<Store extends TravelStore>(
+  store: Store
+): TravelStatus & { controls: Controls<Store> } {
+  const status = useTravelStatus(store);
+  const controls = store.getControls() as Controls<Store>;
+  return useMemo(() => ({ ...status, controls }), [status, controls]);
+}
+
+/**
+ * Whether the store can undo
+ */
+export const useCanUndo = (store: TravelStore): boolean =>
+  useTravelStatus(store, (status) => status.canBack);
+
+/**
+ * Whether the store can redo
+ */
+export const useCanRedo = (store: TravelStore): boolean =>
+  useTravelStatus(store, (status) => status.canForward);
+
+/**
+ * The current history position of the store
+ */
+export const useHistoryPosition = (store: TravelStore): number =>
+  useTravelStatus(store, (status) => status.position);
+
+/**
+ * Bind undo/redo keyboard shortcuts while the component is mounted.
+ *
+ * @example
+ * ```tsx
+ * useTravelShortcuts(useStore, { keymap: { redo: ['mod+y'] } });
+ * ```
+ */
+export function useTravelShortcuts(
+  store: TravelStore,
+  { target, keymap, ignoreEditable, isMac }: TravelShortcutOptions = {}
+): void {
+  // Rebind only when the keymap contents change, not its identity
+  const keymapKey = JSON.stringify(keymap ?? null);
+
+  useEffect(
+    () => bindTravelShortcuts(store, { target, keymap, ignoreEditable, isMac }),
+    [store, target, keymapKey, ignoreEditable, isMac]
+  );
+}
+
+export type { TravelStatus, TravelStore } from './controls';
+export type { TravelShortcutKeymap, TravelShortcutOptions } from './shortcuts';
@@ -0,0 +1,303 @@
+import { apply, create } from 'mutative';
+import type { TravelPatches, TravelsEvent } from 'travels';
+import { assignDiff, getIn, isEqual, isPlainObject } from './utils';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+type Patches = TravelPatches['patches'][number];
+
+/**
+ * One state change of a recorded session
+ */
+export type TravelRecordedStep = {
+  /** Travels event type, e.g. `'setState'` or `'go'` */
+  readonly type: string;
+  readonly label?: string;
+  /** Patches from the previous step's state to this one */
+  readonly patches: Patches;
+  /** Milliseconds since recording started */
+  readonly time: number;
+};
+
+/**
+ * A recorded session. It holds plain data, so it can be saved with
+ * `JSON.stringify()`. States after the steps are not stored, they follow
+ * from the initial state and the patches.
+ */
+export type TravelRecording<S = unknown> = {
+  readonly version: 1;
+  /** Tracked state when recording started */
+  readonly initialState: S;
+  readonly steps: TravelRecordedStep[];
+};
+
+export type TravelRecorder<S> = {
+  /**
+   * Get the steps recorded so far
+   */
+  getRecording: () => TravelRecording<S>;
+  /**
+   * Stop recording
+   *
+   * @returns The recording
+   */
+  stop: () => TravelRecording<S>;
+};
+
+/**
+ * Where the state a replay starts from differs from the recorded one
+ */
+export type TravelDivergence = {
+  /** First path whose value differs */
+  readonly path: (string | number)[];
+  readonly expected: unknown;
+  readonly actual: unknown;
+};
+
+export type TravelReplayPlayOptions = {
+  /**
+   * How much faster than recorded to play, by default 1. Pass `Infinity`
+   * to play without waiting.
+   */
+  speed?: number;
+};
+
+export type TravelReplay = {
+  /** Number of steps applied */
+  readonly position: number;
+  /** Number of steps in the recording */
+  readonly length: number;
+  /**
+   * Difference between the store's state when the replay was created and
+   * the recording's initial state
+   */
+  readonly divergence: TravelDivergence | undefined;
+  /**
+   * Apply the next step
+   *
+   * @returns `false` at the end, or when the step's patches do not apply
+   */
+  step: () => boolean;
+  /**
+   * Show the state after a number of steps, 0 for the initial state
+   */
+  seek: (position: number) => void;
+  /**
+   * Apply the remaining steps with their recorded timing. Stops at the end,
+   * at a step whose patches do not apply, or on `pause()`.
+   *
+   * @returns The divergence, if any
+   */
+  play: (
+    options?: TravelReplayPlayOptions
+  ) => Promise<TravelDivergence | undefined>;
+  /**
+   * Stop playing
+   */
+  pause: () => void;
+};
+
+// ============================================================================
+// Recording Implementation
+// ============================================================================
+
+/**
+ * Record every state change published to `subscribe`, with the patches
+ * Travels computed for it. Changes published without patches, such as
+ * `hydrate`, are diffed against the previous state.
+ */
+export function createRecorder<S>(
+  subscribe: (listener: (event: TravelsEvent<S>) => void) => () => void,
+  initialState: S,
+  clock: () => number
+): TravelRecorder<S> {
+  const start = clock();
+  const steps: TravelRecordedStep[] = [];
+  let previous = initialState;
+
+  const unsubscribe = subscribe(({ type, state, patches, metadata }) => {
+    if (state === previous) return;
+    let changes: Patches = patches.patches.flat();
+    if (!changes.length) {
+      const base = previous;
+      [, changes] = create(
+        base as object,
+        (draft) => {
+          assignDiff(draft, base, state);
+        },
+        { enablePatches: true }
+      );
+    }
+    steps.push({
+      type,
+      ...(metadata?.label !== undefined && { label: metadata.label }),
+      patches: changes,
+      time: clock() - start,
+    });
+    previous = state;
+  });
+
+  const getRecording = (): TravelRecording<S> => ({
+    version: 1,
+    initialState,
+    steps: [...steps],
+  });
+
+  return {
+    getRecording,
+    stop: () => {
+      unsubscribe();
+      return getRecording();
+    },
+  };
+}
+
+// ============================================================================
+// Replay Implementation
+// ============================================================================
+
+const isRecording = (value: unknown): value is TravelRecording =>
+  isPlainObject(value) &&
+  value.version === 1 &&
+  'initialState' in value &&
+  Array.isArray(value.steps) &&
+  value.steps.every(
+    (step) =>
+      isPlainObject(step) &&
+      Array.isArray(step.patches) &&
+      typeof step.time === 'number'
+  );
+
+// First path where two values differ
+const findDifference = (
+  expected: unknown,
+  actual: unknown,
+  path: (string | number)[] = []
+): (string | number)[] | undefined => {
+  if (isEqual(expected, actual)) return undefined;
+  if (
+    expected &&
+    actual &&
+    typeof expected === 'object' &&
+    typeof actual === 'object' &&
+    Array.isArray(expected) === Array.isArray(actual)
+  ) {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    for (const key of keys) {
+      const found = findDifference(
+        (expected as Record<string, unknown>)[key],
+        (actual as Record<string, unknown>)[key],
+        [...path, Array.isArray(expected) ? Number(key) : key]
+      );
+      if (found) return found;
+    }
+  }
+  return path;
+};
+
+/**
+ * Replay a recording by applying each step's patches to the current state
+ * and writing the result with `replace`. This is patch playback: actions do
+ * not run again, so the replayed states match the recorded session whenever
+ * the store starts from the recording's initial state, and only that start
+ * is compared.
+ */
+export function createReplay<S>(
+  recording: TravelRecording<S>,
+  getState: () => S,
+  replace: (state: S) => void
+): TravelReplay {
+  if (!isRecording(recording)) {
+    throw new TypeError(
+      '[zustand-travel] Invalid recording: expected { version: 1, initialState, steps }'
+    );
+  }
+  const { steps } = recording;
+  // State after each number of steps, computed as they are reached
+  const states: S[] = [getState()];
+  let position = 0;
+  let stopPlaying: (() => void) | undefined;
+
+  const startPath = findDifference(recording.initialState, states[0]);
+  const divergence: TravelDivergence | undefined = startPath && {
+    path: startPath,
+    expected: getIn(recording.initialState, startPath).value,
+    actual: getIn(states[0], startPath).value,
+  };
+
+  // Compute the state after the next unreached step
+  const advance = () => {
+    const index = states.length - 1;
+    try {
+      states.push(apply(states[index] as object, steps[index].patches) as S);
+    } catch {
+      return false;
+    }
+    return true;
+  };
+
+  const seek = (target: number) => {
+    if (!Number.isInteger(target) || target < 0 || target > steps.length) {
+      throw new RangeError(
+        `[zustand-travel] seek() position must be an integer from 0 to ${steps.length}, received: ${target}`
+      );
+    }
+    while (states.length <= target && advance()) {
+      // Each pass computes one more state
+    }
+    const reached = Math.min(target, states.length - 1);
+    if (reached === position) return;
+    position = reached;
+    replace(states[position]);
+  };
+
+  const step = () => {
+    if (position >= steps.length) return false;
+    const previous = position;
+    seek(position + 1);
+    return position > previous;
+  };
+
+  const pause = () => {
+    stopPlaying?.();
+  };
+
+  const play = ({ speed = 1 }: TravelReplayPlayOptions = {}) => {
+    pause();
+    return new Promise<TravelDivergence | undefined>((resolve) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const stop = () => {
+        clearTimeout(timer);
+        stopPlaying = undefined;
+        resolve(divergence);
+      };
+      const tick = () => {
+        if (position >= steps.length) return stop();
+        const since = position > 0 ? steps[position - 1].time : 0;
+        const delay = Math.max(0, (steps[position].time - since) / speed);
+        timer = setTimeout(() => {
+          if (!step()) return stop();
+          tick();
+        }, delay);
+      };
+      stopPlaying = stop;
+      tick();
+    });
+  };
+
+  return {
+    get position() {
+      return position;
+    },
+    get length() {
+      return steps.length;
+    },
+    divergence,
+    step,
+    seek,
+    play,
+    pause,
+  };
+}
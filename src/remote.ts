@@ -0,0 +1,101 @@
+import { apply } from 'mutative';
+import type { TravelMetadata, TravelPatches } from 'travels';
+import type { HistoryEntry } from './branches';
+import { patchPath, pathsOverlap } from './utils';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+type Patches = TravelPatches['patches'][number];
+
+export type TravelDroppedEntry = {
+  /** Position the entry led to before the remote change */
+  readonly position: number;
+  readonly label?: string;
+  readonly meta?: TravelMetadata;
+};
+
+/**
+ * Outcome of `controls.applyRemote()`
+ */
+export type TravelRemoteResult = {
+  /**
+   * Local entries that touched the data the remote change touched, or data
+   * of another dropped entry, oldest first
+   */
+  readonly dropped: TravelDroppedEntry[];
+};
+
+// ============================================================================
+// Remote Rebase Implementation
+// ============================================================================
+
+const entryPaths = ({ patches, inversePatches }: HistoryEntry) =>
+  [...patches, ...inversePatches].map(patchPath);
+
+/**
+ * Apply `remote` to the state at `position` and keep the local entries that
+ * still apply on top of it. An entry is dropped when it touches a path the
+ * remote change or a dropped entry touched, where one path contains the
+ * other. Undo entries are checked from the latest back, redo entries from
+ * the earliest on.
+ *
+ * @returns The new initial state, entries, and position
+ */
+export function rebaseOnRemote<S>(
+  state: S,
+  entries: HistoryEntry[],
+  position: number,
+  remote: Patches
+): {
+  state: S;
+  entries: HistoryEntry[];
+  position: number;
+  dropped: TravelDroppedEntry[];
+} {
+  const current = apply(state as object, remote) as S;
+  const remotePaths = remote.map(patchPath);
+  const dropped = new Set<number>();
+
+  // Drop each entry, in order, that touches what the remote change or an
+  // entry dropped before it touched
+  const dropOverlapping = (indexes: number[]) => {
+    const touched = [...remotePaths];
+    for (const index of indexes) {
+      const paths = entryPaths(entries[index]);
+      if (
+        paths.some((path) =>
+          touched.some((written) => pathsOverlap(written, path))
+        )
+      ) {
+        dropped.add(index);
+        touched.push(...paths);
+      }
+    }
+  };
+  const undo = entries.slice(0, position).map((_, index) => index);
+  undo.reverse();
+  dropOverlapping(undo);
+  dropOverlapping(entries.slice(position).map((_, index) => position + index));
+
+  const kept = entries.filter((_, index) => !dropped.has(index));
+  const nextPosition =
+    position - undo.filter((index) => dropped.has(index)).length;
+  // Walk the kept undo entries back to the new initial state
+  let base = current;
+  for (let index = nextPosition - 1; index >= 0; index -= 1) {
+    base = apply(base as object, kept[index].inversePatches) as S;
+  }
+  const droppedIndexes = [...dropped];
+  droppedIndexes.sort((a, b) => a - b);
+  return {
+    state: base,
+    entries: kept,
+    position: nextPosition,
+    dropped: droppedIndexes.map((index) => {
+      const meta = entries[index].metadata;
+      return { position: index + 1, label: meta?.label, meta };
+    }),
+  };
+}
@@ -0,0 +1,61 @@
+import type { TravelPatches } from 'travels';
+import { patchPath, pathsOverlap } from './utils';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+type Patches = TravelPatches['patches'][number];
+
+export type TravelRevertConflict = {
+  /** Position of the later entry that touched the same data */
+  readonly position: number;
+  /** Path the later entry changed */
+  readonly path: (string | number)[];
+};
+
+/**
+ * Outcome of `controls.revert()`. Nothing is changed unless `ok` is `true`.
+ */
+export type TravelRevertResult =
+  | { readonly ok: true }
+  | {
+      readonly ok: false;
+      /** A later entry changed data the reverted entry changed */
+      readonly reason: 'conflict';
+      readonly conflicts: TravelRevertConflict[];
+    }
+  | {
+      readonly ok: false;
+      /** The position is not an entry at or before the current position */
+      readonly reason: 'out-of-range';
+    };
+
+// ============================================================================
+// Conflict Detection
+// ============================================================================
+
+/**
+ * Find paths changed by later entries that overlap the paths `patches`
+ * changes, where one path contains the other
+ *
+ * @param later - Patches of the entries after the reverted one, in order
+ * @param from - Position of the first entry in `later`
+ */
+export function findRevertConflicts(
+  patches: Patches,
+  later: Patches[],
+  from: number
+): TravelRevertConflict[] {
+  const paths = patches.map(patchPath);
+  const conflicts: TravelRevertConflict[] = [];
+  later.forEach((group, index) => {
+    for (const patch of group) {
+      const path = patchPath(patch);
+      if (paths.some((reverted) => pathsOverlap(reverted, path))) {
+        conflicts.push({ position: from + index, path });
+      }
+    }
+  });
+  return conflicts;
+}
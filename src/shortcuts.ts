@@ -0,0 +1,176 @@
+import type { TravelStore } from './controls';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Key combinations such as `'mod+z'` or `'ctrl+shift+z'`. `mod` is Cmd on
+ * macOS and Ctrl everywhere else.
+ */
+export type TravelShortcutKeymap = {
+  undo?: string[];
+  redo?: string[];
+};
+
+export type TravelShortcutOptions = {
+  /**
+   * Where to listen for `keydown`, by default `window`
+   */
+  target?: Pick<EventTarget, 'addEventListener' | 'removeEventListener'>;
+  /**
+   * Override the default key combinations
+   */
+  keymap?: TravelShortcutKeymap;
+  /**
+   * Leave shortcuts to the browser while focus is inside an input, textarea,
+   * select, or contenteditable element, by default `true`
+   */
+  ignoreEditable?: boolean;
+  /**
+   * Treat `mod` as Cmd. Detected from `navigator` by default.
+   */
+  isMac?: boolean;
+};
+
+type KeyCombo = {
+  key: string;
+  ctrl: boolean;
+  meta: boolean;
+  shift: boolean;
+  alt: boolean;
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const defaultKeymap: Required<TravelShortcutKeymap> = {
+  undo: ['mod+z'],
+  redo: ['mod+shift+z', 'ctrl+y'],
+};
+
+const detectMac = () => {
+  if (typeof navigator === 'undefined') return false;
+  const platform =
+    (navigator as Navigator & { userAgentData?: { platform?: string } })
+      .userAgentData?.platform ?? navigator.platform;
+  return /mac|iphone|ipad|ipod/i.test(platform);
+};
+
+function parseCombo(combo: string, isMac: boolean): KeyCombo {
+  const parts = combo.toLowerCase().split('+');
+  const key = parts.pop();
+  if (__DEV__) {
+    if (!key) {
+      throw new TypeError(
+        `[zustand-travel] Invalid shortcut: ${JSON.stringify(combo)}`
+      );
+    }
+  }
+  const parsed: KeyCombo = {
+    key: key!,
+    ctrl: false,
+    meta: false,
+    shift: false,
+    alt: false,
+  };
+  for (const part of parts) {
+    if (part === 'mod') {
+      parsed[isMac ? 'meta' : 'ctrl'] = true;
+    } else if (part === 'cmd' || part === 'meta') {
+      parsed.meta = true;
+    } else if (part === 'ctrl' || part === 'control') {
+      parsed.ctrl = true;
+    } else if (part === 'shift') {
+      parsed.shift = true;
+    } else if (part === 'alt' || part === 'option') {
+      parsed.alt = true;
+    }
+  }
+  return parsed;
+}
+
+const matchesCombo = (event: KeyboardEvent, combo: KeyCombo) =>
+  event.ctrlKey === combo.ctrl &&
+  event.metaKey === combo.meta &&
+  event.shiftKey === combo.shift &&
+  event.altKey === combo.alt &&
+  // `code` keeps shortcuts working on non-Latin keyboard layouts
+  (event.key?.toLowerCase() === combo.key ||
+    event.code?.toLowerCase() === `key${combo.key}`);
+
+const isEditable = (target: EventTarget | null) => {
+  if (!target || typeof (target as Element).tagName !== 'string') {
+    return false;
+  }
+  const element = target as HTMLElement;
+  return (
+    element.isContentEditable ||
+    element.tagName === 'INPUT' ||
+    element.tagName === 'TEXTAREA' ||
+    element.tagName === 'SELECT'
+  );
+};
+
+// ============================================================================
+// Shortcut Binding
+// ============================================================================
+
+/**
+ * Bind undo/redo keyboard shortcuts to a store created with `travel`
+ *
+ * @example
+ * ```typescript
+ * const unbind = bindTravelShortcuts(useStore);
+ * // Later
+ * unbind();
+ * ```
+ *
+ * @param store - A store created with `travel`. A shortcut is handled only
+ * when the store can undo or redo.
+ * @returns Function that removes the listener
+ */
+export function bindTravelShortcuts(
+  store: TravelStore,
+  {
+    target = typeof window === 'undefined' ? undefined : window,
+    keymap,
+    ignoreEditable = true,
+    isMac = detectMac(),
+  }: TravelShortcutOptions = {}
+): () => void {
+  if (!target) {
+    return () => {};
+  }
+
+  const undo = (keymap?.undo ?? defaultKeymap.undo).map((combo) =>
+    parseCombo(combo, isMac)
+  );
+  const redo = (keymap?.redo ?? defaultKeymap.redo).map((combo) =>
+    parseCombo(combo, isMac)
+  );
+
+  const onKeyDown = (event: Event) => {
+    const keyboardEvent = event as KeyboardEvent;
+    // Keys pressed while an IME is composing belong to the composition
+    if (keyboardEvent.isComposing || keyboardEvent.keyCode === 229) return;
+    if (ignoreEditable && isEditable(keyboardEvent.target)) return;
+
+    const isUndo = undo.some((combo) => matchesCombo(keyboardEvent, combo));
+    const isRedo =
+      !isUndo && redo.some((combo) => matchesCombo(keyboardEvent, combo));
+    if (!isUndo && !isRedo) return;
+
+    keyboardEvent.preventDefault();
+    const controls = store.getControls();
+    if (isUndo && controls.canBack()) {
+      controls.back();
+    } else if (isRedo && controls.canForward()) {
+      controls.forward();
+    }
+  };
+
+  target.addEventListener('keydown', onKeyDown);
+  return () => target.removeEventListener('keydown', onKeyDown);
+}
@@ -0,0 +1,299 @@
+import type { TravelMetadata, Travels, TravelsHistory, Updater } from 'travels';
+import { createControls, type TravelControls } from './controls';
+import { readHistoryEntries, toTravelsHistory } from './branches';
+import { rebaseOnRemote } from './remote';
+import { squashRange } from './squash';
+import { createSubscriptions } from './subscriptions';
+import { assignDiff, hasOwn, isPlainObject } from './utils';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * - `single`: one undo stack for the whole key
+ * - `entries`: one undo stack per entry of the object at the key, e.g. per
+ *   document in `documents[id]`. Stacks are created and released as entries
+ *   are added and removed.
+ */
+export type SliceMode = 'single' | 'entries';
+
+export type SliceOptions = Record<string, SliceMode>;
+
+type SliceTravels = Travels<any, false, boolean>;
+
+type SliceStack = {
+  readonly travels: SliceTravels;
+  readonly controls: TravelControls<any>;
+  commit: (
+    state: unknown,
+    metadata: TravelMetadata | undefined,
+    withoutHistory: boolean
+  ) => void;
+  release: () => void;
+};
+
+type SliceStacksOptions = {
+  /**
+   * Expose `archive()` and `canArchive()` on every stack's controls
+   */
+  manual: boolean;
+  /**
+   * Current time for entry and checkpoint timestamps
+   */
+  clock: () => number;
+  createTravels: (state: object, history?: TravelsHistory) => SliceTravels;
+  /**
+   * Write a stack's state to the store after undo, redo, and other changes
+   * that did not come from the store
+   */
+  write: (key: string, id: string | undefined, state: unknown) => void;
+};
+
+export type SliceStacks = {
+  /**
+   * Commit the slice values of the next store data to their stacks, creating
+   * and releasing entry stacks as needed
+   *
+   * @returns The data with each slice value replaced by its stack's state
+   */
+  commit: (
+    data: Record<string, unknown>,
+    metadata: (travels: SliceTravels) => TravelMetadata | undefined,
+    withoutHistory?: boolean
+  ) => Record<string, unknown>;
+  getControls: (key: string, id?: string) => TravelControls<any> | undefined;
+};
+
+// ============================================================================
+// Slice Stacks Implementation
+// ============================================================================
+
+const assertSliceValue = (value: unknown, name: string) => {
+  if (!value || typeof value !== 'object') {
+    throw new TypeError(
+      `[zustand-travel] ${name} must be an object or array to have its own history, received: ${value === null ? 'null' : typeof value}`
+    );
+  }
+};
+
+// Commit one value and return the stack's resulting state
+const commitValue = (
+  stack: SliceStack,
+  value: unknown,
+  metadata: (travels: SliceTravels) => TravelMetadata | undefined,
+  withoutHistory: boolean
+) => {
+  if (value !== stack.travels.getState()) {
+    stack.commit(value, metadata(stack.travels), withoutHistory);
+  }
+  return stack.travels.getState();
+};
+
+/**
+ * Give slices of the store their own Travels instance, so undo in one slice
+ * never reverts another
+ */
+export function createSliceStacks(
+  slices: SliceOptions,
+  initialData: Record<string, unknown>,
+  { manual, clock, createTravels, write }: SliceStacksOptions
+): SliceStacks {
+  if (__DEV__) {
+    for (const [key, mode] of Object.entries(slices)) {
+      if (mode !== 'single' && mode !== 'entries') {
+        throw new TypeError(
+          `[zustand-travel] slices.${key} must be 'single' or 'entries', received: ${JSON.stringify(mode)}`
+        );
+      }
+    }
+  }
+
+  // Set while the store's own changes are committed, since the store
+  // already holds them
+  let isCommitting = false;
+
+  const createStack = (
+    key: string,
+    id: string | undefined,
+    value: unknown
+  ): SliceStack => {
+    if (__DEV__) {
+      assertSliceValue(value, id === undefined ? key : `${key}[${id}]`);
+    }
+    let travels = createTravels(value as object);
+    const subscriptions = createSubscriptions(() => travels);
+
+    const commit: SliceStack['commit'] = (state, metadata, withoutHistory) => {
+      const previous = travels.getState();
+      const updater = (
+        Array.isArray(previous) === Array.isArray(state)
+          ? (draft: unknown) => {
+              assignDiff(draft, previous, state);
+            }
+          : () => state
+      ) as Updater<unknown>;
+      if (withoutHistory) {
+        travels.replaceStateWithoutHistory(updater);
+      } else {
+        travels.setState(updater, metadata);
+      }
+    };
+
+    const controls = createControls(() => travels, {
+      manual,
+      clock,
+      subscribe: subscriptions.subscribe,
+      hydrate: ({ state, patches, position, metadata }) => {
+        travels = createTravels(state as object, {
+          patches,
+          position,
+          metadata,
+        });
+        subscriptions.move(travels);
+        subscriptions.announce('hydrate');
+      },
+      restore: (state, metadata) => {
+        commit(state, { timestamp: clock(), ...metadata }, false);
+      },
+      squash: (from, to, metadata) => {
+        const squashed = squashRange(
+          readHistoryEntries(travels),
+          travels.getPosition(),
+          from,
+          to,
+          metadata
+        );
+        const next = createTravels(
+          travels.getHistory()[0] as object,
+          toTravelsHistory(squashed.entries)
+        );
+        next.go(squashed.position);
+        travels = next;
+        subscriptions.move(travels);
+        subscriptions.announce('squash');
+      },
+      replace: (state) => {
+        commit(state, undefined, true);
+      },
+      applyRemote: (patches) => {
+        const rebased = rebaseOnRemote(
+          travels.getState(),
+          readHistoryEntries(travels),
+          travels.getPosition(),
+          patches
+        );
+        const next = createTravels(
+          rebased.state as object,
+          toTravelsHistory(rebased.entries)
+        );
+        next.go(rebased.position);
+        travels = next;
+        subscriptions.move(travels);
+        subscriptions.announce('applyRemote');
+        return { dropped: rebased.dropped };
+      },
+    });
+
+    subscriptions.subscribe(({ state }) => {
+      if (!isCommitting) write(key, id, state);
+    });
+
+    return {
+      get travels() {
+        return travels;
+      },
+      controls,
+      commit,
+      release: subscriptions.clear,
+    };
+  };
+
+  const singles = new Map<string, SliceStack>();
+  const entries = new Map<string, Map<string, SliceStack>>();
+
+  for (const [key, mode] of Object.entries(slices)) {
+    const value = initialData[key];
+    if (mode === 'single') {
+      singles.set(key, createStack(key, undefined, value));
+    } else {
+      const stacks = new Map<string, SliceStack>();
+      if (isPlainObject(value)) {
+        for (const id of Object.keys(value)) {
+          stacks.set(id, createStack(key, id, value[id]));
+        }
+      }
+      entries.set(key, stacks);
+    }
+  }
+
+  const commit: SliceStacks['commit'] = (
+    data,
+    metadata,
+    withoutHistory = false
+  ) => {
+    let next = data;
+    const assign = (key: string, value: unknown) => {
+      if (value === next[key]) return;
+      if (next === data) next = { ...data };
+      next[key] = value;
+    };
+
+    isCommitting = true;
+    try {
+      for (const [key, stack] of singles) {
+        assign(key, commitValue(stack, data[key], metadata, withoutHistory));
+      }
+      for (const [key, stacks] of entries) {
+        const container = data[key];
+        const values = isPlainObject(container) ? container : {};
+        for (const [id, stack] of stacks) {
+          if (!hasOwn(values, id)) {
+            stack.release();
+            stacks.delete(id);
+          }
+        }
+        let nextContainer = values;
+        for (const id of Object.keys(values)) {
+          let stack = stacks.get(id);
+          if (!stack) {
+            stack = createStack(key, id, values[id]);
+            stacks.set(id, stack);
+          }
+          const value = commitValue(
+            stack,
+            values[id],
+            metadata,
+            withoutHistory
+          );
+          if (value !== values[id]) {
+            if (nextContainer === values) nextContainer = { ...values };
+            nextContainer[id] = value;
+          }
+        }
+        if (isPlainObject(container)) assign(key, nextContainer);
+      }
+    } finally {
+      isCommitting = false;
+    }
+    return next;
+  };
+
+  const getControls: SliceStacks['getControls'] = (key, id) => {
+    if (__DEV__) {
+      const mode = slices[key];
+      if (!mode || (mode === 'entries') !== (id !== undefined)) {
+        throw new TypeError(
+          mode
+            ? `[zustand-travel] getControls('${key}') ${mode === 'entries' ? 'needs an entry id' : 'takes no entry id'}`
+            : `[zustand-travel] '${key}' has no history of its own. Add it to the slices option.`
+        );
+      }
+    }
+    return id === undefined
+      ? singles.get(key)?.controls
+      : entries.get(key)?.get(id)?.controls;
+  };
+
+  return { commit, getControls };
+}
@@ -0,0 +1,99 @@
+import type { TravelMetadata } from 'travels';
+import type { HistoryEntry } from './branches';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type CompactOptions = {
+  /**
+   * Compact entries at least this many positions behind the current one
+   */
+  after: number;
+  /**
+   * Number of entries merged into one
+   */
+  groupSize: number;
+};
+
+// ============================================================================
+// Squash Implementation
+// ============================================================================
+
+// Number of original entries an entry holds
+const countSquashed = (metadata: TravelMetadata | undefined) =>
+  typeof metadata?.squashed === 'number' ? metadata.squashed : 1;
+
+// Merge consecutive entries into one that applies all their patches
+const mergeEntries = (
+  entries: HistoryEntry[],
+  metadata: TravelMetadata | undefined
+): HistoryEntry => {
+  const first = entries[0].metadata;
+  // Undo runs the inverse patches from the latest entry back
+  const undo = [...entries];
+  undo.reverse();
+  return {
+    patches: entries.flatMap((entry) => entry.patches),
+    inversePatches: undo.flatMap((entry) => entry.inversePatches),
+    metadata: {
+      ...(first?.timestamp !== undefined && { timestamp: first.timestamp }),
+      ...(metadata ?? first),
+      squashed: entries.reduce(
+        (count, entry) => count + countSquashed(entry.metadata),
+        0
+      ),
+    },
+  };
+};
+
+/**
+ * Merge the entries between positions `from` and `to` into one entry. It
+ * keeps the first entry's metadata, or `metadata` with the first entry's
+ * timestamp, and records in `squashed` how many original entries it holds.
+ *
+ * A position inside the range moves to the end of the merged entry.
+ */
+export function squashRange(
+  entries: HistoryEntry[],
+  position: number,
+  from: number,
+  to: number,
+  metadata?: TravelMetadata
+): { entries: HistoryEntry[]; position: number } {
+  const removed = to - from - 1;
+  return {
+    entries: [
+      ...entries.slice(0, from),
+      mergeEntries(entries.slice(from, to), metadata),
+      ...entries.slice(to),
+    ],
+    position:
+      position <= from ? position : Math.max(position - removed, from + 1),
+  };
+}
+
+/**
+ * Find groups of `groupSize` old entries to squash, oldest first, as
+ * `[from, to]` positions. Entries that already hold several are left as
+ * they are, and a group waits until it is full.
+ */
+export function findCompactRanges(
+  entries: HistoryEntry[],
+  position: number,
+  { after, groupSize }: CompactOptions
+): [number, number][] {
+  const ranges: [number, number][] = [];
+  let from = 0;
+  // Entries before `end` lead to positions far enough behind
+  const end = Math.min(position - after, entries.length);
+  for (let index = 0; index < end; index += 1) {
+    if (countSquashed(entries[index].metadata) > 1) {
+      from = index + 1;
+    } else if (index + 1 - from === groupSize) {
+      ranges.push([from, index + 1]);
+      from = index + 1;
+    }
+  }
+  return ranges;
+}
@@ -0,0 +1,78 @@
+import type { Travels, TravelsEvent } from 'travels';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type Subscriptions<S> = {
+  /**
+   * Subscribe to the current Travels instance and any that replace it
+   */
+  subscribe: (listener: (event: TravelsEvent<S>) => void) => () => void;
+  /**
+   * Move every listener to a new Travels instance
+   */
+  move: (next: Travels<S, false, boolean>) => void;
+  /**
+   * Tell every listener that the instance's history was replaced. A new
+   * instance publishes nothing by itself.
+   */
+  announce: (type: string) => void;
+  /**
+   * Unsubscribe every listener
+   */
+  clear: () => void;
+};
+
+// ============================================================================
+// Subscriptions Implementation
+// ============================================================================
+
+export function createSubscriptions<S>(
+  getTravels: () => Travels<S, false, boolean>
+): Subscriptions<S> {
+  const subscriptions = new Set<{
+    listener: (event: TravelsEvent<S>) => void;
+    unsubscribe: () => void;
+  }>();
+
+  return {
+    subscribe: (listener) => {
+      const subscription = {
+        listener,
+        unsubscribe: getTravels().subscribe(listener),
+      };
+      subscriptions.add(subscription);
+      return () => {
+        if (subscriptions.delete(subscription)) {
+          subscription.unsubscribe();
+        }
+      };
+    },
+    move: (next) => {
+      for (const subscription of subscriptions) {
+        subscription.unsubscribe();
+        subscription.unsubscribe = next.subscribe(subscription.listener);
+      }
+    },
+    announce: (type) => {
+      const travels = getTravels();
+      const event: TravelsEvent<S> = {
+        type,
+        state: travels.getState(),
+        position: travels.getPosition(),
+        patches: { patches: [], inversePatches: [] },
+        historyLength: travels.getPatches().patches.length,
+      };
+      for (const { listener } of subscriptions) {
+        listener(event);
+      }
+    },
+    clear: () => {
+      for (const subscription of subscriptions) {
+        subscription.unsubscribe();
+      }
+      subscriptions.clear();
+    },
+  };
+}
@@ -0,0 +1,97 @@
+import type { TravelPatches } from 'travels';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * - `history`: record each remote change as a local history entry that can
+ *   be undone
+ * - `rebase`: apply each remote change as the new baseline and clear local
+ *   history
+ */
+export type SyncPolicy = 'history' | 'rebase';
+
+export type SyncOptions = {
+  /**
+   * BroadcastChannel name shared by every store that should stay in sync
+   */
+  channel: string;
+  /**
+   * How changes from other tabs are applied, by default `'history'`
+   */
+  policy?: SyncPolicy;
+  /**
+   * Called when a remote change cannot be applied, e.g. because the tabs
+   * started from different states
+   */
+  onError?: (error: unknown) => void;
+};
+
+export type SyncMessage =
+  | {
+      /**
+       * Patch groups that transform the sender's previous state into its
+       * current one
+       */
+      patches: TravelPatches['patches'];
+    }
+  | {
+      /**
+       * The sender's whole tracked state, sent when it changed without
+       * patches, e.g. by `hydrate()` or `applyRemote()`
+       */
+      state: unknown;
+    };
+
+export type SyncChannel = {
+  post: (message: SyncMessage) => void;
+  close: () => void;
+};
+
+// ============================================================================
+// Channel Implementation
+// ============================================================================
+
+/**
+ * Open a BroadcastChannel for tracked-state patches.
+ *
+ * @returns `undefined` when BroadcastChannel is not available, e.g. during
+ * server rendering
+ */
+export function createSyncChannel(
+  { channel: name }: SyncOptions,
+  receive: (message: SyncMessage) => void
+): SyncChannel | undefined {
+  if (__DEV__) {
+    if (typeof name !== 'string' || !name) {
+      throw new TypeError(
+        `[zustand-travel] sync.channel must be a non-empty string, received: ${JSON.stringify(name)}`
+      );
+    }
+  }
+  if (typeof BroadcastChannel === 'undefined') {
+    return undefined;
+  }
+
+  const channel = new BroadcastChannel(name);
+  const onMessage = (event: MessageEvent<SyncMessage>) => {
+    const { data } = event;
+    if (
+      data &&
+      ('patches' in data ? Array.isArray(data.patches) : 'state' in data)
+    ) {
+      receive(data);
+    }
+  };
+  channel.addEventListener('message', onMessage);
+
+  return {
+    // BroadcastChannel has no target origin, unlike window.postMessage
+    post: channel.postMessage.bind(channel),
+    close: () => {
+      channel.removeEventListener('message', onMessage);
+      channel.close();
+    },
+  };
+}
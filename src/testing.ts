@@ -0,0 +1,281 @@
+import type { TravelStore } from './controls';
+import { isEqual, isPlainObject } from './utils';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type TestStoreOptions = {
+  /**
+   * Check the invariant of `watchTravelInvariant` after every change,
+   * by default `true`
+   */
+  checkInvariant?: boolean;
+};
+
+/**
+ * Returns the store of the current test, creating it on first use
+ */
+export type TestStore<Store extends TravelStore> = {
+  (): Store;
+  /**
+   * Drop the store so the next call creates a fresh one, e.g. in
+   * `afterEach`
+   */
+  reset: () => void;
+};
+
+/**
+ * What a matcher passed to `expect.extend()` returns
+ */
+export type TravelMatcherResult = {
+  pass: boolean;
+  message: () => string;
+};
+
+/**
+ * Types of `travelMatchers`, to add to the runner's assertion type
+ *
+ * @example
+ * ```typescript
+ * declare module 'vitest' {
+ *   interface Assertion<T> extends TravelMatchers<T> {}
+ * }
+ * ```
+ */
+export type TravelMatchers<R = unknown> = {
+  toHaveHistoryStates: (states: unknown[]) => R;
+  toBeAtPosition: (position: number) => R;
+  toHaveHistoryLength: (length: number) => R;
+  toBeAbleToUndo: () => R;
+  toBeAbleToRedo: () => R;
+};
+
+export type HistoryAssertions = {
+  /** Assert the tracked state of every position, starting at 0 */
+  toHaveStates: (states: unknown[]) => void;
+  toBeAt: (position: number) => void;
+  /** Assert the number of entries, not counting the initial state */
+  toHaveLength: (length: number) => void;
+  toBeAbleToUndo: () => void;
+  toBeAbleToRedo: () => void;
+  /** The same assertions, negated */
+  readonly not: Omit<HistoryAssertions, 'not'>;
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+// Controls of the store under test. A store created without the middleware
+// can still get here through an `any` typed test, so check at runtime.
+const getControls = (store: TravelStore) => {
+  if (typeof store.getControls !== 'function') {
+    throw new TypeError(
+      '[zustand-travel] Expected a store created with the travel middleware'
+    );
+  }
+  return store.getControls();
+};
+
+const format = (value: unknown) => {
+  const text = JSON.stringify(value);
+  return text === undefined ? String(value) : text;
+};
+
+// First path where the store holds a different value than the tracked
+// state. Store values the tracked state leaves out are not compared.
+const findMismatch = (
+  tracked: unknown,
+  state: unknown,
+  path: string[] = []
+): string[] | undefined => {
+  if (isPlainObject(tracked) && isPlainObject(state)) {
+    for (const key of Object.keys(tracked)) {
+      const found = findMismatch(tracked[key], state[key], [...path, key]);
+      if (found) return found;
+    }
+    return undefined;
+  }
+  return isEqual(tracked, state) ? undefined : path;
+};
+
+/**
+ * Throw unless the store's state holds the tracked state at the current
+ * history position, e.g. after an update that bypassed the middleware.
+ * Untracked fields and actions are not compared, and neither is anything
+ * while an async transaction shows changes that are not recorded yet.
+ */
+export function assertTravelInvariant(store: TravelStore): void {
+  const controls = getControls(store);
+  if (controls.getPendingTransactionCount() > 0) return;
+  const tracked = controls.getHistory()[controls.position];
+  const path = findMismatch(tracked, store.getState());
+  if (path) {
+    throw new Error(
+      `[zustand-travel] Store state does not match the Travels state at ${path.length ? path.join('.') : '(root)'}`
+    );
+  }
+}
+
+/**
+ * Check `assertTravelInvariant` after every change of the store. A mismatch
+ * throws from the update that caused it.
+ *
+ * @returns Function that stops checking
+ */
+export function watchTravelInvariant(store: TravelStore): () => void {
+  return store.subscribe(() => assertTravelInvariant(store));
+}
+
+/**
+ * Create a store per test from `factory`
+ *
+ * @example
+ * ```typescript
+ * const useTodos = createTestStore(() => create<Todos>()(travel(todos)));
+ *
+ * afterEach(useTodos.reset);
+ *
+ * it('adds a todo', () => {
+ *   useTodos().getState().add('Docs');
+ *   expectHistory(useTodos()).toHaveLength(1);
+ * });
+ * ```
+ */
+export function createTestStore<Store extends TravelStore>(
+  factory: () => Store,
+  { checkInvariant = true }: TestStoreOptions = {}
+): TestStore<Store> {
+  let current: { store: Store; unwatch?: () => void } | undefined;
+  const get = () => {
+    if (!current) {
+      const store = factory();
+      current = {
+        store,
+        unwatch: checkInvariant ? watchTravelInvariant(store) : undefined,
+      };
+    }
+    return current.store;
+  };
+  return Object.assign(get, {
+    reset: () => {
+      current?.unwatch?.();
+      current = undefined;
+    },
+  });
+}
+
+// ============================================================================
+// Assertions
+// ============================================================================
+
+// A failing matcher passed only when negated, so `pass` tells which message
+// to show
+const result = (pass: boolean, message: string): TravelMatcherResult => ({
+  pass,
+  message: () =>
+    `[zustand-travel] Expected history ${pass ? 'not ' : ''}${message}`,
+});
+
+/**
+ * History matchers for `expect.extend()` in Vitest or Jest
+ *
+ * @example
+ * ```typescript
+ * expect.extend(travelMatchers);
+ *
+ * expect(useStore).toHaveHistoryStates([{ count: 0 }, { count: 1 }]);
+ * expect(useStore).not.toBeAbleToRedo();
+ * ```
+ */
+export const travelMatchers = {
+  toHaveHistoryStates: (store: TravelStore, states: unknown[]) => {
+    const history = getControls(store).getHistory();
+    return result(
+      isEqual(history, states),
+      `to have states ${format(states)}, received ${format(history)}`
+    );
+  },
+  toBeAtPosition: (store: TravelStore, position: number) => {
+    const current = getControls(store).position;
+    return result(
+      current === position,
+      `to be at position ${position}, received ${current}`
+    );
+  },
+  toHaveHistoryLength: (store: TravelStore, length: number) => {
+    const current = getControls(store).getHistory().length - 1;
+    return result(
+      current === length,
+      `to have ${length} entries, received ${current}`
+    );
+  },
+  toBeAbleToUndo: (store: TravelStore) =>
+    result(getControls(store).canBack(), 'to be able to undo'),
+  toBeAbleToRedo: (store: TravelStore) =>
+    result(getControls(store).canForward(), 'to be able to redo'),
+};
+
+const createAssertions = (
+  store: TravelStore,
+  negated: boolean
+): Omit<HistoryAssertions, 'not'> => {
+  const check = ({ pass, message }: TravelMatcherResult) => {
+    if (pass === negated) throw new Error(message());
+  };
+  return {
+    toHaveStates: (states) =>
+      check(travelMatchers.toHaveHistoryStates(store, states)),
+    toBeAt: (position) => check(travelMatchers.toBeAtPosition(store, position)),
+    toHaveLength: (length) =>
+      check(travelMatchers.toHaveHistoryLength(store, length)),
+    toBeAbleToUndo: () => check(travelMatchers.toBeAbleToUndo(store)),
+    toBeAbleToRedo: () => check(travelMatchers.toBeAbleToRedo(store)),
+  };
+};
+
+/**
+ * Assert the history of a store. Failures throw, so they work in any test
+ * runner. With Vitest or Jest, `travelMatchers` offers the same checks
+ * through `expect()`.
+ *
+ * @example
+ * ```typescript
+ * expectHistory(useStore).toHaveStates([{ count: 0 }, { count: 1 }]);
+ * expectHistory(useStore).toBeAt(1);
+ * expectHistory(useStore).not.toBeAbleToRedo();
+ * ```
+ */
+export function expectHistory(store: TravelStore): HistoryAssertions {
+  return {
+    ...createAssertions(store, false),
+    not: createAssertions(store, true),
+  };
+}
+
+/**
+ * Undo every entry
+ *
+ * @returns The number of entries undone
+ */
+export function undoAll(store: TravelStore): number {
+  const controls = getControls(store);
+  const from = controls.position;
+  controls.go(0);
+  return from - controls.position;
+}
+
+/**
+ * Redo every entry
+ *
+ * @returns The number of entries redone
+ */
+export function redoAll(store: TravelStore): number {
+  const controls = getControls(store);
+  const from = controls.position;
+  controls.go(controls.getHistory().length - 1);
+  return controls.position - from;
+}
+
+export type { TravelStore } from './controls';
@@ -0,0 +1,86 @@
+import {
+  deleteIn,
+  getIn,
+  normalizePath,
+  setIn,
+  type TravelPath,
+} from './utils';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type StateTracker = {
+  /**
+   * Extract the part of the store data that belongs in history
+   */
+  split: <T>(state: T) => T;
+  /**
+   * Rebuild the store data from tracked state, taking every untracked
+   * value from `source`
+   */
+  merge: <T>(tracked: T, source: unknown) => T;
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Copy the value at `path` from `source` into `target`, or delete it from
+ * `target` when `source` does not have it
+ */
+function copyPath<T>(target: T, source: unknown, path: (string | number)[]): T {
+  const { found, value } = getIn(source, path);
+  return found ? setIn(target, path, value) : deleteIn(target, path);
+}
+
+// ============================================================================
+// Tracker Implementation
+// ============================================================================
+
+/**
+ * Create a tracker for `include` / `exclude` path filters.
+ * Returns `undefined` when every data field is tracked.
+ */
+export function createStateTracker(
+  include?: readonly TravelPath[],
+  exclude?: readonly TravelPath[]
+): StateTracker | undefined {
+  if (!include && !exclude?.length) {
+    return undefined;
+  }
+
+  const includePaths = include?.map(normalizePath);
+  const excludePaths = (exclude ?? []).map(normalizePath);
+
+  const split = <T>(state: T): T => {
+    let tracked = state;
+    if (includePaths) {
+      tracked = {} as T;
+      for (const path of includePaths) {
+        tracked = copyPath(tracked, state, path);
+      }
+    }
+    for (const path of excludePaths) {
+      tracked = deleteIn(tracked, path);
+    }
+    return tracked;
+  };
+
+  const merge = <T>(tracked: T, source: unknown): T => {
+    let merged = tracked;
+    if (includePaths) {
+      merged = source as T;
+      for (const path of includePaths) {
+        merged = copyPath(merged, tracked, path);
+      }
+    }
+    for (const path of excludePaths) {
+      merged = copyPath(merged, source, path);
+    }
+    return merged;
+  };
+
+  return { split, merge };
+}
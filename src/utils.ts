@@ -0,0 +1,214 @@
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * A location inside the store state. Strings use dot notation
+ * (`'ui.hover'`), arrays list each key (`['ui', 'hover']`).
+ */
+export type TravelPath = string | readonly (string | number)[];
+
+type PathKey = string | number;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+export const isPlainObject = (
+  value: unknown
+): value is Record<string, unknown> => {
+  if (value === null || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+export const hasOwn = (target: object, key: PathKey) =>
+  Object.prototype.hasOwnProperty.call(target, key);
+
+/**
+ * Normalize a dot-notation or array path into a list of keys
+ */
+export function normalizePath(path: TravelPath): PathKey[] {
+  const keys = typeof path === 'string' ? path.split('.') : [...path];
+
+  if (__DEV__) {
+    if (keys.length === 0 || keys.some((key) => key === '')) {
+      throw new TypeError(
+        `[zustand-travel] Invalid state path: ${JSON.stringify(path)}`
+      );
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * Read the value at `path`, reporting whether it exists
+ */
+export function getIn(
+  source: unknown,
+  path: readonly PathKey[]
+): { found: boolean; value: unknown } {
+  let current = source;
+  for (const key of path) {
+    if (current === null || typeof current !== 'object') {
+      return { found: false, value: undefined };
+    }
+    if (!hasOwn(current, key)) {
+      return { found: false, value: undefined };
+    }
+    current = (current as Record<PathKey, unknown>)[key];
+  }
+  return { found: true, value: current };
+}
+
+const shallowCopy = (value: unknown): Record<PathKey, unknown> =>
+  Array.isArray(value)
+    ? (value.slice() as unknown as Record<PathKey, unknown>)
+    : { ...(value as Record<PathKey, unknown>) };
+
+/**
+ * Immutably write `value` at `path`, copying every container along the way.
+ * Missing parents are created as plain objects.
+ */
+export function setIn<T>(
+  target: T,
+  path: readonly PathKey[],
+  value: unknown
+): T {
+  if (path.length === 0) return value as T;
+  const [key, ...rest] = path;
+  const base =
+    target !== null && typeof target === 'object' ? shallowCopy(target) : {};
+  base[key] = setIn(hasOwn(base, key) ? base[key] : undefined, rest, value);
+  return base as T;
+}
+
+/**
+ * Immutably delete the value at `path`. Returns `target` untouched when the
+ * path does not exist.
+ */
+export function deleteIn<T>(target: T, path: readonly PathKey[]): T {
+  if (path.length === 0 || target === null || typeof target !== 'object') {
+    return target;
+  }
+  const [key, ...rest] = path;
+  if (!hasOwn(target, key)) return target;
+  const base = shallowCopy(target);
+  if (rest.length === 0) {
+    delete base[key];
+  } else {
+    const child = deleteIn(base[key], rest);
+    if (child === base[key]) return target;
+    base[key] = child;
+  }
+  return base as T;
+}
+
+/**
+ * Write the minimal set of changes between `base` and `next` into `draft`.
+ *
+ * `draft` must be a Mutative draft of `base`. Subtrees that keep their
+ * reference are skipped, so the resulting patches only touch paths that
+ * actually changed.
+ */
+export function assignDiff(draft: any, base: any, next: any): void {
+  if (Array.isArray(base) && Array.isArray(next)) {
+    const length = next.length;
+    for (let index = 0; index < length; index += 1) {
+      assignDiffKey(draft, base, next, index);
+    }
+    if (base.length > length) {
+      draft.length = length;
+    }
+    return;
+  }
+
+  for (const key of Object.keys(base)) {
+    if (!hasOwn(next, key)) {
+      delete draft[key];
+    }
+  }
+  for (const key of Object.keys(next)) {
+    assignDiffKey(draft, base, next, key);
+  }
+}
+
+function assignDiffKey(draft: any, base: any, next: any, key: PathKey): void {
+  const baseValue = base[key];
+  const nextValue = next[key];
+  if (Object.is(baseValue, nextValue) && hasOwn(base, key)) return;
+
+  const bothObjects = isPlainObject(baseValue) && isPlainObject(nextValue);
+  const bothArrays = Array.isArray(baseValue) && Array.isArray(nextValue);
+  if (bothObjects || bothArrays) {
+    assignDiff(draft[key], baseValue, nextValue);
+  } else {
+    draft[key] = nextValue;
+  }
+}
+
+/**
+ * Compare plain objects and arrays by value, everything else with
+ * `Object.is`
+ */
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length &&
+      a.every((value, index) => isEqual(value, b[index]))
+    );
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => hasOwn(b, key) && isEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+// Patch paths are arrays by default, or JSON Pointer strings with
+// `pathAsArray: false`
+const toPath = (path: string | PathKey[]): PathKey[] =>
+  Array.isArray(path)
+    ? path
+    : path
+        .split('/')
+        .slice(1)
+        .map((key) => key.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+/**
+ * Path of the data a patch changes. Adding or removing an array item shifts
+ * every index after it, and so does assigning the length, so these count as
+ * changes to the whole array.
+ */
+export function patchPath({
+  op,
+  path,
+}: {
+  op: string;
+  path: string | PathKey[];
+}): PathKey[] {
+  const keys = toPath(path);
+  const key = keys[keys.length - 1];
+  return (op !== 'replace' && typeof key === 'number') || key === 'length'
+    ? keys.slice(0, -1)
+    : keys;
+}
+
+/**
+ * Whether one path contains the other
+ */
+export function pathsOverlap(
+  a: readonly PathKey[],
+  b: readonly PathKey[]
+): boolean {
+  const length = Math.min(a.length, b.length);
+  for (let index = 0; index < length; index += 1) {
+    if (String(a[index]) !== String(b[index])) return false;
+  }
+  return true;
+}
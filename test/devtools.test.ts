@@ -0,0 +1,184 @@
+import { describe, it, expect, vi } from 'vitest';
+import { create } from 'zustand';
+import {
+  connectDevtools,
+  travel,
+  type DevtoolsConnection,
+  type DevtoolsMessage,
+} from '../src/index';
+
+const createCounter = (options: Parameters<typeof travel>[1] = {}) =>
+  create<{ count: number; add: (amount: number) => void }>()(
+    travel(
+      (set) => ({
+        count: 0,
+        add: (amount) =>
+          set((state) => {
+            state.count += amount;
+          }),
+      }),
+      options
+    )
+  );
+
+const createExtension = () => {
+  let listener: ((message: DevtoolsMessage) => void) | undefined;
+  const unsubscribe = vi.fn<() => void>();
+  const connection = {
+    init: vi.fn<DevtoolsConnection['init']>(),
+    send: vi.fn<DevtoolsConnection['send']>(),
+    subscribe: (next: (message: DevtoolsMessage) => void) => {
+      listener = next;
+      return unsubscribe;
+    },
+  };
+  const extension = {
+    connect: vi.fn<(options: { name?: string }) => DevtoolsConnection>(
+      () => connection
+    ),
+  };
+  const dispatch = (type: string, actionId?: number) =>
+    listener!({ type: 'DISPATCH', payload: { type, actionId } });
+  return { extension, connection, dispatch, unsubscribe };
+};
+
+describe('Redux DevTools', () => {
+  it('should report each change with its position and patches', () => {
+    const useStore = createCounter();
+    const { extension, connection } = createExtension();
+
+    connectDevtools(useStore, { name: 'Counter', extension });
+
+    expect(extension.connect).toHaveBeenCalledWith({ name: 'Counter' });
+    expect(connection.init).toHaveBeenCalledWith(useStore.getState());
+
+    useStore.getState().add(1);
+    expect(connection.send).toHaveBeenLastCalledWith(
+      {
+        type: 'setState',
+        position: 1,
+        patches: {
+          patches: [[{ op: 'replace', path: ['count'], value: 1 }]],
+          inversePatches: [[{ op: 'replace', path: ['count'], value: 0 }]],
+        },
+      },
+      useStore.getState()
+    );
+
+    useStore.getControls().back();
+    expect(connection.send).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: 'go', position: 0 }),
+      useStore.getState()
+    );
+  });
+
+  it('should jump to the position recorded with an action', () => {
+    const useStore = createCounter();
+    const { extension, connection, dispatch } = createExtension();
+    connectDevtools(useStore, { extension });
+
+    useStore.getState().add(1);
+    useStore.getState().add(1);
+    useStore.getState().add(1);
+
+    dispatch('JUMP_TO_ACTION', 1);
+    expect(useStore.getState().count).toBe(1);
+    dispatch('JUMP_TO_STATE', 0);
+    expect(useStore.getState().count).toBe(0);
+    dispatch('JUMP_TO_STATE', 3);
+    expect(useStore.getState().count).toBe(3);
+    // Jumps are not reported back as new actions
+    expect(connection.send).toHaveBeenCalledTimes(3);
+
+    dispatch('JUMP_TO_STATE', 42);
+    expect(useStore.getState().count).toBe(3);
+  });
+
+  it('should start over when a commit discards redo entries', () => {
+    const useStore = createCounter();
+    const { extension, connection, dispatch } = createExtension();
+    connectDevtools(useStore, { extension });
+
+    useStore.getState().add(10);
+    useStore.getState().add(10);
+    useStore.getControls().back();
+    useStore.getState().add(5);
+
+    expect(connection.init).toHaveBeenCalledTimes(2);
+    expect(connection.init).toHaveBeenLastCalledWith(useStore.getState());
+    // The discarded action is gone, and the new log starts at count 15
+    dispatch('JUMP_TO_ACTION', 2);
+    expect(useStore.getState().count).toBe(15);
+
+    useStore.getState().add(1);
+    dispatch('JUMP_TO_ACTION', 0);
+    expect(useStore.getState().count).toBe(15);
+    dispatch('JUMP_TO_ACTION', 1);
+    expect(useStore.getState().count).toBe(16);
+  });
+
+  it('should start over when the oldest entries are trimmed', () => {
+    const useStore = createCounter({ maxHistory: 2 });
+    const { extension, connection, dispatch } = createExtension();
+    connectDevtools(useStore, { extension });
+
+    useStore.getState().add(1);
+    useStore.getState().add(1);
+    expect(connection.init).toHaveBeenCalledTimes(1);
+    useStore.getState().add(1);
+    useStore.getState().add(1);
+
+    expect(connection.init).toHaveBeenCalledTimes(3);
+    expect(connection.init).toHaveBeenLastCalledWith(useStore.getState());
+    dispatch('JUMP_TO_ACTION', 1);
+    expect(useStore.getState().count).toBe(4);
+
+    useStore.getControls().back();
+    dispatch('JUMP_TO_ACTION', 0);
+    expect(useStore.getState().count).toBe(4);
+  });
+
+  it('should map COMMIT to rebase and RESET to reset', () => {
+    const useStore = createCounter();
+    const { extension, connection, dispatch } = createExtension();
+    connectDevtools(useStore, { extension });
+    const controls = useStore.getControls();
+
+    useStore.getState().add(1);
+    useStore.getState().add(1);
+
+    dispatch('COMMIT');
+    expect(useStore.getState().count).toBe(2);
+    expect(controls.getStatus()).toMatchObject({ position: 0, canBack: false });
+    expect(connection.init).toHaveBeenCalledTimes(2);
+
+    useStore.getState().add(1);
+    dispatch('JUMP_TO_ACTION', 0);
+    expect(useStore.getState().count).toBe(2);
+
+    dispatch('RESET');
+    expect(useStore.getState().count).toBe(2);
+    expect(connection.init).toHaveBeenLastCalledWith(useStore.getState());
+    expect(connection.send).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop reporting after disconnecting', () => {
+    const useStore = createCounter();
+    const { extension, connection, unsubscribe } = createExtension();
+    const disconnect = connectDevtools(useStore, { extension });
+
+    disconnect();
+    useStore.getState().add(1);
+
+    expect(connection.send).not.toHaveBeenCalled();
+    expect(unsubscribe).toHaveBeenCalled();
+  });
+
+  it('should do nothing without the extension', () => {
+    const useStore = createCounter();
+    const disconnect = connectDevtools(useStore);
+
+    useStore.getState().add(1);
+    expect(() => disconnect()).not.toThrow();
+  });
+});
@@ -1,8 +1,76 @@
-import { describe, it, expect } from 'vitest';
-import { create, StoreApi } from 'zustand';
-import { persist, createJSONStorage } from 'zustand/middleware';
-import { Travels } from 'travels';
-import { Controls, travel } from '../src/index';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { create } from 'zustand';
+import { devtools, persist, createJSONStorage } from 'zustand/middleware';
+import { Travels, type TravelsWarning } from 'travels';
+import {
+  formatDiff,
+  travel,
+  type TravelHistoryNode,
+  type TravelMove,
+  type TravelRecordedStep,
+} from '../src/index';
+
+type NodeView = {
+  label?: string;
+  active: boolean;
+  current: boolean;
+  children: NodeView[];
+};
+
+// Promise the async transaction tests settle by hand
+const createDeferred = <T = void>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+type Counter = {
+  count: number;
+  hover: boolean;
+  increment: () => void;
+  add: (amount: number, label?: string) => void;
+  setHover: (hover: boolean) => void;
+};
+
+type CounterSet = (
+  partial: Partial<Counter> | ((state: Counter) => void),
+  replace?: false,
+  action?: string
+) => void;
+
+// Counter state of the option tests, for whichever middleware wraps travel
+const counter = (set: CounterSet): Counter => ({
+  count: 0,
+  hover: false,
+  increment: () =>
+    set((state) => {
+      state.count += 1;
+    }),
+  add: (amount, label) =>
+    set(
+      (state) => {
+        state.count += amount;
+      },
+      false,
+      label
+    ),
+  setHover: (hover) => set({ hover }),
+});
+
+const createCounter = (options: Parameters<typeof travel>[1] = {}) =>
+  create<Counter>()(travel((set) => counter(set), options));
+
+// Reduce a history tree to the fields the branching tests compare
+const describeNode = (node: TravelHistoryNode): NodeView => ({
+  label: node.label,
+  active: node.active,
+  current: node.current,
+  children: node.children.map(describeNode),
+});
 
 describe('Zustand Travel Middleware', () => {
   describe('Basic Functionality', () => {
@@ -137,12 +205,7 @@ describe('Zustand Travel Middleware', () => {
         )
       );
 
-      const controls = useStore.getControls() as Controls<
-        StoreApi<{
-          count: number;
-        }>,
-        false
-      >;
+      const controls = useStore.getControls();
       expect(controls.archive).toBeDefined();
       expect(controls).toBeDefined();
       expect(controls.back).toBeDefined();
@@ -465,12 +528,7 @@ describe('Zustand Travel Middleware', () => {
         )
       );
 
-      const controls = useStore.getControls() as Controls<
-        StoreApi<{
-          count: number;
-        }>,
-        false
-      >;
+      const controls = useStore.getControls();
       const { increment } = useStore.getState();
 
       increment();
@@ -681,6 +739,2384 @@ describe('Zustand Travel Middleware', () => {
       expect(useStore.getState().data.value).toBe(10);
     });
   });
+
+  describe('Tracked Paths', () => {
+    type EditorState = {
+      title: string;
+      hover: string | null;
+      ui: { scroll: number; panel: string };
+      setTitle: (title: string) => void;
+      setHover: (hover: string | null) => void;
+      scrollTo: (scroll: number) => void;
+    };
+
+    const editor = (set: any) => ({
+      title: 'draft',
+      hover: null,
+      ui: { scroll: 0, panel: 'layers' },
+      setTitle: (title: string) =>
+        set((state: EditorState) => {
+          state.title = title;
+        }),
+      setHover: (hover: string | null) => set({ hover }),
+      scrollTo: (scroll: number) =>
+        set((state: EditorState) => {
+          state.ui.scroll = scroll;
+        }),
+    });
+
+    it('should keep excluded fields out of history', () => {
+      const useStore = create<EditorState>()(
+        travel(editor, { exclude: ['hover', 'ui.scroll'] })
+      );
+      const { setTitle, setHover, scrollTo } = useStore.getState();
+      const controls = useStore.getControls();
+
+      setTitle('first');
+      setHover('layer-1');
+      scrollTo(120);
+
+      expect(controls.position).toBe(1);
+      expect(useStore.getState()).toMatchObject({
+        title: 'first',
+        hover: 'layer-1',
+        ui: { scroll: 120, panel: 'layers' },
+      });
+      expect(controls.getHistory()).toEqual([
+        { title: 'draft', ui: { panel: 'layers' } },
+        { title: 'first', ui: { panel: 'layers' } },
+      ]);
+      expect(JSON.stringify(controls.patches)).not.toContain('hover');
+      expect(JSON.stringify(controls.patches)).not.toContain('scroll');
+
+      controls.back();
+      expect(useStore.getState()).toMatchObject({
+        title: 'draft',
+        hover: 'layer-1',
+        ui: { scroll: 120, panel: 'layers' },
+      });
+
+      controls.forward();
+      expect(useStore.getState().title).toBe('first');
+      expect(useStore.getState().hover).toBe('layer-1');
+      expect(useStore.getState().setTitle).toBe(setTitle);
+    });
+
+    it('should track only included fields', () => {
+      const useStore = create<EditorState>()(
+        travel(editor, { include: ['title', 'ui.panel'] })
+      );
+      const { setTitle, setHover, scrollTo } = useStore.getState();
+      const controls = useStore.getControls();
+
+      setHover('layer-2');
+      setTitle('second');
+      scrollTo(40);
+
+      expect(controls.getHistory()).toEqual([
+        { title: 'draft', ui: { panel: 'layers' } },
+        { title: 'second', ui: { panel: 'layers' } },
+      ]);
+
+      controls.reset();
+      expect(useStore.getState()).toMatchObject({
+        title: 'draft',
+        hover: 'layer-2',
+        ui: { scroll: 40, panel: 'layers' },
+      });
+    });
+
+    it('should let updaters read untracked fields', () => {
+      const useStore = create<{
+        count: number;
+        step: number;
+        increment: () => void;
+        setStep: (step: number) => void;
+      }>()(
+        travel(
+          (set) => ({
+            count: 0,
+            step: 1,
+            increment: () =>
+              set((state) => {
+                state.count += state.step;
+              }),
+            setStep: (step) => set({ step }),
+          }),
+          { exclude: ['step'] }
+        )
+      );
+      const { increment, setStep } = useStore.getState();
+
+      setStep(5);
+      increment();
+      expect(useStore.getState().count).toBe(5);
+
+      useStore.getControls().back();
+      expect(useStore.getState()).toMatchObject({ count: 0, step: 5 });
+    });
+
+    it('should keep untracked fields on replace updates', () => {
+      const useStore = create<{
+        count: number;
+        hover: boolean;
+        replace: (state: { count: number; hover: boolean }) => void;
+      }>()(
+        travel(
+          (set) => ({
+            count: 0,
+            hover: false,
+            replace: (state) => set(state, true),
+          }),
+          { exclude: ['hover'] }
+        )
+      );
+
+      useStore.getState().replace({ count: 3, hover: true });
+      expect(useStore.getState()).toMatchObject({ count: 3, hover: true });
+
+      useStore.getControls().back();
+      expect(useStore.getState()).toMatchObject({ count: 0, hover: true });
+    });
+  });
+
+  describe('Transactions', () => {
+    type State = {
+      items: string[];
+      selected: string | null;
+      dialogOpen: boolean;
+      addItem: (item: string) => void;
+      select: (item: string) => void;
+      closeDialog: () => void;
+    };
+
+    const createItemStore = (autoArchive = true) =>
+      create<State>()(
+        travel(
+          (set) => ({
+            items: [],
+            selected: null,
+            dialogOpen: true,
+            addItem: (item) =>
+              set((state) => {
+                state.items.push(item);
+              }),
+            select: (item) => set({ selected: item }),
+            closeDialog: () => set({ dialogOpen: false }),
+          }),
+          { autoArchive }
+        )
+      );
+
+    it('should group set calls into a single history entry', () => {
+      const useStore = createItemStore();
+      const { addItem, select, closeDialog } = useStore.getState();
+      const controls = useStore.getControls();
+
+      useStore.transaction(() => {
+        addItem('a');
+        // Reads inside the transaction see the updates made so far
+        expect(useStore.getState().items).toEqual(['a']);
+        select('a');
+        closeDialog();
+      });
+
+      expect(controls.position).toBe(1);
+      expect(useStore.getState()).toMatchObject({
+        items: ['a'],
+        selected: 'a',
+        dialogOpen: false,
+      });
+
+      controls.back();
+      expect(useStore.getState()).toMatchObject({
+        items: [],
+        selected: null,
+        dialogOpen: true,
+      });
+    });
+
+    it('should join nested transactions', () => {
+      const useStore = createItemStore();
+      const { addItem, select } = useStore.getState();
+
+      useStore.transaction(() => {
+        addItem('a');
+        useStore.transaction(() => {
+          addItem('b');
+          select('b');
+        });
+      });
+
+      expect(useStore.getControls().position).toBe(1);
+      expect(useStore.getControls().getHistory()).toHaveLength(2);
+    });
+
+    it('should roll back every change when the callback throws', () => {
+      const useStore = create<State & { hover: boolean }>()(
+        travel(
+          (set) => ({
+            items: [],
+            selected: null,
+            dialogOpen: true,
+            hover: false,
+            addItem: (item) =>
+              set((state) => {
+                state.items.push(item);
+                state.hover = true;
+              }),
+            select: (item) => set({ selected: item }),
+            closeDialog: () => set({ dialogOpen: false }),
+          }),
+          { exclude: ['hover'] }
+        )
+      );
+      const { addItem, select } = useStore.getState();
+      const error = new Error('Import failed');
+
+      expect(() =>
+        useStore.transaction(() => {
+          addItem('a');
+          select('a');
+          throw error;
+        })
+      ).toThrow(error);
+
+      expect(useStore.getState()).toMatchObject({
+        items: [],
+        selected: null,
+        hover: false,
+      });
+      expect(useStore.getControls().position).toBe(0);
+    });
+
+    it('should group changes in manual archive mode', () => {
+      const useStore = createItemStore(false);
+      const { addItem, select } = useStore.getState();
+      const controls = useStore.getControls();
+
+      useStore.transaction(() => {
+        addItem('a');
+        select('a');
+      });
+
+      expect(controls.canArchive()).toBe(false);
+      expect(controls.position).toBe(1);
+
+      controls.back();
+      expect(useStore.getState()).toMatchObject({ items: [], selected: null });
+    });
+  });
+
+  describe('Coalescing', () => {
+    type State = {
+      text: string;
+      volume: number;
+      type: (text: string) => void;
+      setVolume: (volume: number) => void;
+    };
+
+    const createEditor = (key?: (prev: any, next: any) => string) =>
+      create<State>()(
+        travel(
+          (set) => ({
+            text: '',
+            volume: 0,
+            type: (text) =>
+              set((state) => {
+                state.text = text;
+              }),
+            setVolume: (volume) => set({ volume }),
+          }),
+          { coalesce: { windowMs: 500, key } }
+        )
+      );
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should merge commits inside the window into one entry', () => {
+      vi.useFakeTimers();
+      const useStore = createEditor();
+      const { type } = useStore.getState();
+      const controls = useStore.getControls();
+
+      type('h');
+      vi.advanceTimersByTime(100);
+      type('he');
+      vi.advanceTimersByTime(100);
+      type('hel');
+
+      expect(controls.position).toBe(1);
+      expect(controls.getHistory()).toEqual([
+        { text: '', volume: 0 },
+        { text: 'hel', volume: 0 },
+      ]);
+
+      vi.advanceTimersByTime(600);
+      type('hello');
+      expect(controls.position).toBe(2);
+
+      controls.back();
+      expect(useStore.getState().text).toBe('hel');
+      controls.back();
+      expect(useStore.getState().text).toBe('');
+      controls.forward(2);
+      expect(useStore.getState().text).toBe('hello');
+    });
+
+    it('should start a new entry when the key changes', () => {
+      vi.useFakeTimers();
+      const useStore = createEditor((prev, next) =>
+        prev.text !== next.text ? 'text' : 'volume'
+      );
+      const { type, setVolume } = useStore.getState();
+      const controls = useStore.getControls();
+
+      type('a');
+      type('ab');
+      setVolume(1);
+      setVolume(2);
+      type('abc');
+
+      expect(controls.position).toBe(3);
+      expect(controls.getHistory()).toEqual([
+        { text: '', volume: 0 },
+        { text: 'ab', volume: 0 },
+        { text: 'ab', volume: 2 },
+        { text: 'abc', volume: 2 },
+      ]);
+    });
+
+    it('should keep presenting auto archive controls', () => {
+      const useStore = createEditor();
+      const controls = useStore.getControls();
+
+      expect('archive' in controls).toBe(false);
+      expect('canArchive' in controls).toBe(false);
+
+      useStore.getState().type('a');
+      expect(controls.canBack()).toBe(true);
+      expect(controls.patches.patches).toHaveLength(1);
+    });
+
+    it('should not merge transactions into an open window', () => {
+      const useStore = createEditor();
+      const { type, setVolume } = useStore.getState();
+      const controls = useStore.getControls();
+
+      type('a');
+      useStore.transaction(() => {
+        setVolume(3);
+        type('b');
+      });
+      type('bc');
+
+      expect(controls.getHistory()).toEqual([
+        { text: '', volume: 0 },
+        { text: 'a', volume: 0 },
+        { text: 'b', volume: 3 },
+        { text: 'bc', volume: 3 },
+      ]);
+    });
+  });
+
+  describe('External setState', () => {
+    it('should record external writes as history entries', () => {
+      const useStore = createCounter({ externalSetState: 'track' });
+      const { increment } = useStore.getState();
+      const controls = useStore.getControls();
+
+      increment();
+      useStore.setState({ count: 10 });
+
+      expect(useStore.getState()).toMatchObject({
+        count: 10,
+        hover: false,
+      });
+      expect(controls.position).toBe(2);
+
+      controls.back();
+      expect(useStore.getState().count).toBe(1);
+      controls.forward();
+      expect(useStore.getState().count).toBe(10);
+    });
+
+    it('should keep actions when an external write replaces the state', () => {
+      const useStore = createCounter({ externalSetState: 'track' });
+      const { increment } = useStore.getState();
+
+      useStore.setState(
+        { count: 5, hover: true, increment: () => {} } as Counter,
+        true
+      );
+
+      expect(useStore.getState().increment).toBe(increment);
+      expect(useStore.getControls().getHistory()).toEqual([
+        { count: 0, hover: false },
+        { count: 5, hover: true },
+      ]);
+    });
+
+    it('should merge the result of an external updater in track mode', () => {
+      const onWarning = vi.fn<(warning: TravelsWarning) => void>();
+      const useStore = createCounter({ externalSetState: 'track', onWarning });
+      const { increment } = useStore.getState();
+
+      useStore.setState((state) => ({
+        count: state.count + 5,
+        increment: () => {},
+      }));
+
+      expect(useStore.getState().increment).toBe(increment);
+      expect(useStore.getControls().getHistory()).toEqual([
+        { count: 0, hover: false },
+        { count: 5, hover: false },
+      ]);
+      expect(onWarning).not.toHaveBeenCalled();
+    });
+
+    it('should merge the result of an external updater in rebase mode', () => {
+      const onWarning = vi.fn<(warning: TravelsWarning) => void>();
+      const useStore = createCounter({ externalSetState: 'rebase', onWarning });
+      const { increment } = useStore.getState();
+
+      useStore.setState((state) => ({
+        count: state.count + 5,
+        increment: () => {},
+      }));
+
+      expect(useStore.getState()).toMatchObject({ count: 5, hover: false });
+      expect(useStore.getState().increment).toBe(increment);
+      expect(useStore.getControls().getHistory()).toEqual([
+        { count: 5, hover: false },
+      ]);
+      expect(onWarning).not.toHaveBeenCalled();
+    });
+
+    it('should make external writes the new baseline in rebase mode', () => {
+      const useStore = createCounter({ externalSetState: 'rebase' });
+      const { increment } = useStore.getState();
+      const controls = useStore.getControls();
+
+      increment();
+      increment();
+      useStore.setState({ count: 20 });
+
+      expect(useStore.getState().count).toBe(20);
+      expect(controls.position).toBe(0);
+      expect(controls.canBack()).toBe(false);
+
+      increment();
+      controls.reset();
+      expect(useStore.getState().count).toBe(20);
+    });
+
+    it('should drop external writes in ignore mode', () => {
+      const useStore = createCounter({ externalSetState: 'ignore' });
+
+      useStore.setState({ count: 99 });
+      expect(useStore.getState().count).toBe(0);
+
+      useStore.getState().increment();
+      expect(useStore.getState().count).toBe(1);
+    });
+
+    it('should reject external writes in throw mode', () => {
+      const useStore = createCounter({ externalSetState: 'throw' });
+
+      expect(() => useStore.setState({ count: 99 })).toThrow(
+        'bypasses history'
+      );
+      expect(useStore.getState().count).toBe(0);
+
+      useStore.getState().increment();
+      useStore.getControls().back();
+      expect(useStore.getState().count).toBe(0);
+    });
+
+    it('should record a rehydration by persist composed outside travel', () => {
+      const storage = createJSONStorage(() => ({
+        getItem: () => JSON.stringify({ state: { count: 42 }, version: 0 }),
+        setItem: () => {},
+        removeItem: () => {},
+      }));
+      const useStore = create<Counter>()(
+        persist(
+          travel((set) => counter(set), { externalSetState: 'track' }),
+          { name: 'counter', storage }
+        )
+      );
+      const controls = useStore.getControls();
+
+      expect(useStore.getState().count).toBe(42);
+      expect(controls.getHistory()).toEqual([
+        { count: 0, hover: false },
+        { count: 42, hover: false },
+      ]);
+
+      useStore.getState().increment();
+      controls.back();
+      expect(useStore.getState().count).toBe(42);
+    });
+
+    it('should route devtools time travel composed outside travel', () => {
+      let listener: ((message: unknown) => void) | undefined;
+      vi.stubGlobal('__REDUX_DEVTOOLS_EXTENSION__', {
+        connect: () => ({
+          init: () => {},
+          send: () => {},
+          subscribe: (next: (message: unknown) => void) => {
+            listener = next;
+            return () => {};
+          },
+        }),
+      });
+      const createStore = (externalSetState: 'track' | 'ignore') =>
+        create<Counter>()(
+          devtools(
+            travel((set) => counter(set), { externalSetState }),
+            { enabled: true }
+          )
+        );
+      const jumpTo = (state: object) =>
+        listener?.({
+          type: 'DISPATCH',
+          payload: { type: 'JUMP_TO_STATE' },
+          state: JSON.stringify(state),
+        });
+
+      try {
+        const tracked = createStore('track');
+        jumpTo({ count: 7, hover: false });
+        expect(tracked.getState().count).toBe(7);
+        expect(tracked.getControls().getHistory()).toEqual([
+          { count: 0, hover: false },
+          { count: 7, hover: false },
+        ]);
+
+        const ignored = createStore('ignore');
+        jumpTo({ count: 7, hover: false });
+        expect(ignored.getState().count).toBe(0);
+        expect(typeof ignored.getState().increment).toBe('function');
+        expect(ignored.getControls().position).toBe(0);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it('should leave external writes untouched by default', () => {
+      const useStore = createCounter();
+
+      useStore.setState({ count: 3 });
+      expect(useStore.getState().count).toBe(3);
+      expect(useStore.getControls().position).toBe(0);
+    });
+  });
+  describe('Cross-tab Sync', () => {
+    type State = {
+      count: number;
+      hover: boolean;
+      increment: () => void;
+      setHover: (hover: boolean) => void;
+    };
+
+    const createTab = (
+      channel: string,
+      options: Omit<Parameters<typeof travel>[1] & {}, 'sync'> = {},
+      sync: {
+        policy?: 'history' | 'rebase';
+        onError?: (e: unknown) => void;
+      } = {}
+    ) =>
+      create<State>()(
+        travel(
+          (set) => ({
+            count: 0,
+            hover: false,
+            increment: () =>
+              set((state) => {
+                state.count += 1;
+              }),
+            setHover: (hover) => set({ hover }),
+          }),
+          { ...options, sync: { channel, ...sync } }
+        )
+      );
+
+    it('should record changes from another tab as history', async () => {
+      const tabA = createTab('sync-history');
+      const tabB = createTab('sync-history');
+
+      tabA.getState().increment();
+      tabA.getState().increment();
+      await vi.waitFor(() => expect(tabB.getState().count).toBe(2));
+      expect(tabB.getControls().getStatus()).toMatchObject({
+        position: 2,
+        historyLength: 2,
+      });
+
+      // Undo in one tab is a change like any other
+      tabB.getControls().back();
+      expect(tabB.getState().count).toBe(1);
+      await vi.waitFor(() => expect(tabA.getState().count).toBe(1));
+      expect(tabA.getControls().position).toBe(3);
+
+      tabA.closeSync();
+      tabB.closeSync();
+    });
+
+    it('should rebase on changes from another tab', async () => {
+      const tabA = createTab('sync-rebase');
+      const tabB = createTab('sync-rebase', {}, { policy: 'rebase' });
+
+      tabB.getState().increment();
+      await vi.waitFor(() => expect(tabA.getState().count).toBe(1));
+
+      tabA.getState().increment();
+      await vi.waitFor(() => expect(tabB.getState().count).toBe(2));
+      expect(tabB.getControls().getStatus()).toMatchObject({
+        position: 0,
+        historyLength: 0,
+      });
+
+      tabA.closeSync();
+      tabB.closeSync();
+    });
+
+    it('should only share tracked fields', async () => {
+      const tabA = createTab('sync-tracked', { exclude: ['hover'] });
+      const tabB = createTab('sync-tracked', { exclude: ['hover'] });
+
+      tabA.getState().setHover(true);
+      tabA.getState().increment();
+      await vi.waitFor(() => expect(tabB.getState().count).toBe(1));
+      expect(tabB.getState().hover).toBe(false);
+      expect(tabA.getState().hover).toBe(true);
+
+      tabA.closeSync();
+      tabB.closeSync();
+    });
+
+    it('should report changes that cannot be applied', async () => {
+      const onError = vi.fn<(error: unknown) => void>();
+      const tabA = create<{ items: string[]; add: (item: string) => void }>()(
+        travel(
+          (set) => ({
+            items: [],
+            add: (item) =>
+              set((state) => {
+                state.items.push(item);
+              }),
+          }),
+          { sync: { channel: 'sync-error' } }
+        )
+      );
+      const tabB = create<{ count: number }>()(
+        travel(() => ({ count: 0 }), {
+          sync: { channel: 'sync-error', onError },
+        })
+      );
+
+      tabA.getState().add('a');
+      await vi.waitFor(() => expect(onError).toHaveBeenCalled());
+      expect(tabB.getState()).toEqual({ count: 0 });
+
+      tabA.closeSync();
+      tabB.closeSync();
+    });
+
+    it('should share changes made without patches as the whole state', async () => {
+      const tabA = createTab('sync-hydrate');
+      const tabB = createTab('sync-hydrate');
+
+      tabA.getControls().hydrate({
+        state: { count: 5, hover: false },
+        patches: { patches: [], inversePatches: [] },
+        position: 0,
+      });
+      await vi.waitFor(() => expect(tabB.getState().count).toBe(5));
+
+      // Later patches apply to the same base in both tabs
+      tabA
+        .getControls()
+        .applyRemote([{ op: 'replace', path: ['count'], value: 7 }]);
+      await vi.waitFor(() => expect(tabB.getState().count).toBe(7));
+      tabA.getState().increment();
+      await vi.waitFor(() => expect(tabB.getState().count).toBe(8));
+
+      tabA.closeSync();
+      tabB.closeSync();
+    });
+
+    it('should stop syncing after closeSync()', async () => {
+      const tabA = createTab('sync-close');
+      const tabB = createTab('sync-close');
+      const tabC = createTab('sync-close');
+
+      tabB.closeSync();
+      tabA.getState().increment();
+      await vi.waitFor(() => expect(tabC.getState().count).toBe(1));
+      expect(tabB.getState().count).toBe(0);
+
+      tabA.closeSync();
+      tabC.closeSync();
+    });
+  });
+  describe('History Entries', () => {
+    type State = {
+      name: string;
+      items: string[];
+      rename: (name: string) => void;
+      add: (item: string) => void;
+      remove: (count: number) => void;
+    };
+
+    const createEditor = (options: Parameters<typeof travel>[1] = {}) =>
+      create<State>()(
+        travel(
+          (set) => ({
+            name: 'Layer',
+            items: [],
+            rename: (name) => set({ name }, false, 'Renamed layer'),
+            add: (item) =>
+              set((state) => {
+                state.items.push(item);
+              }),
+            remove: (count) =>
+              set(
+                (state) => {
+                  state.items.splice(0, count);
+                },
+                false,
+                { label: `Deleted ${count} items`, count }
+              ),
+          }),
+          options
+        )
+      );
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should record labels, metadata, and timestamps', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1000);
+      const useStore = createEditor();
+
+      useStore.getState().rename('Background');
+      vi.setSystemTime(2000);
+      useStore.getState().add('a');
+      useStore.getState().add('b');
+      vi.setSystemTime(3000);
+      useStore.getState().remove(2);
+
+      expect(useStore.getControls().getHistoryEntries()).toEqual([
+        {
+          state: { name: 'Layer', items: [] },
+          label: undefined,
+          meta: undefined,
+          timestamp: undefined,
+        },
+        {
+          state: { name: 'Background', items: [] },
+          label: 'Renamed layer',
+          meta: { label: 'Renamed layer', timestamp: 1000 },
+          timestamp: 1000,
+        },
+        {
+          state: { name: 'Background', items: ['a'] },
+          label: undefined,
+          meta: { timestamp: 2000 },
+          timestamp: 2000,
+        },
+        {
+          state: { name: 'Background', items: ['a', 'b'] },
+          label: undefined,
+          meta: { timestamp: 2000 },
+          timestamp: 2000,
+        },
+        {
+          state: { name: 'Background', items: [] },
+          label: 'Deleted 2 items',
+          meta: { label: 'Deleted 2 items', count: 2, timestamp: 3000 },
+          timestamp: 3000,
+        },
+      ]);
+    });
+
+    it('should use a devtools-style action type as the label', () => {
+      const useStore = create<{ count: number; inc: () => void }>()(
+        travel((set) => ({
+          count: 0,
+          inc: () =>
+            set(
+              (state) => {
+                state.count += 1;
+              },
+              false,
+              { type: 'counter/inc' }
+            ),
+        }))
+      );
+
+      useStore.getState().inc();
+      expect(useStore.getControls().getHistoryEntries()[1].label).toBe(
+        'counter/inc'
+      );
+    });
+
+    it('should label transactions', () => {
+      const useStore = createEditor();
+
+      useStore.transaction('Imported items', () => {
+        useStore.getState().add('a');
+        useStore.getState().rename('Imported');
+      });
+      // Without its own label, a transaction keeps the first one inside it
+      useStore.transaction(() => {
+        useStore.getState().add('b');
+        useStore.getState().rename('Edited');
+        useStore.getState().add('c');
+      });
+
+      const entries = useStore.getControls().getHistoryEntries();
+      expect(entries.map((entry) => entry.label)).toEqual([
+        undefined,
+        'Imported items',
+        'Renamed layer',
+      ]);
+      expect(entries[2].state).toEqual({
+        name: 'Edited',
+        items: ['a', 'b', 'c'],
+      });
+    });
+
+    it('should keep the first label of a coalesced entry', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1000);
+      const useStore = createEditor({ coalesce: { windowMs: 500 } });
+
+      useStore.getState().rename('A');
+      vi.advanceTimersByTime(100);
+      useStore.getState().add('a');
+      vi.advanceTimersByTime(100);
+      useStore.getState().add('b');
+
+      let entries = useStore.getControls().getHistoryEntries();
+      expect(entries).toHaveLength(2);
+      expect(entries[1]).toMatchObject({
+        label: 'Renamed layer',
+        timestamp: 1000,
+      });
+
+      vi.advanceTimersByTime(100);
+      useStore.getState().remove(1);
+      entries = useStore.getControls().getHistoryEntries();
+      expect(entries).toHaveLength(2);
+      expect(entries[1]).toMatchObject({
+        label: 'Deleted 1 items',
+        timestamp: 1300,
+      });
+    });
+
+    it('should keep entries through serialize and hydrate', () => {
+      const source = createEditor();
+      source.getState().rename('Saved');
+      source.getState().add('a');
+      source.getState().remove(1);
+
+      const snapshot = source.getControls().serialize();
+      expect(snapshot.metadata?.map((meta) => meta?.label)).toEqual([
+        'Renamed layer',
+        undefined,
+        'Deleted 1 items',
+      ]);
+
+      const target = createEditor();
+      target.getControls().hydrate(snapshot);
+      expect(
+        target
+          .getControls()
+          .getHistoryEntries()
+          .map((entry) => entry.label)
+      ).toEqual([undefined, 'Renamed layer', undefined, 'Deleted 1 items']);
+    });
+
+    it('should accept an action for external setState calls', () => {
+      const useStore = createEditor({ externalSetState: 'track' });
+
+      useStore.setState({ name: 'Outside' }, false, 'External rename');
+      expect(useStore.getControls().getHistoryEntries()[1].label).toBe(
+        'External rename'
+      );
+    });
+  });
+
+  describe('Checkpoints', () => {
+    it('should jump back to a checkpoint after further edits', () => {
+      const useStore = createCounter();
+      const controls = useStore.getControls();
+
+      useStore.getState().increment();
+      const checkpoint = controls.checkpoint('before import');
+      expect(checkpoint).toMatchObject({
+        name: 'before import',
+        state: { count: 1, hover: false },
+        position: 1,
+      });
+
+      useStore.getState().increment();
+      useStore.getState().increment();
+      expect(controls.goToCheckpoint('before import')).toBe(true);
+      expect(useStore.getState().count).toBe(1);
+      expect(controls.position).toBe(1);
+      // Navigation keeps the entries after the checkpoint
+      expect(controls.canForward()).toBe(true);
+
+      expect(controls.goToCheckpoint('missing')).toBe(false);
+    });
+
+    it('should restore a checkpoint whose entry was trimmed', () => {
+      const useStore = createCounter({ maxHistory: 2, exclude: ['hover'] });
+      const controls = useStore.getControls();
+
+      useStore.getState().increment();
+      controls.checkpoint('one');
+      useStore.getState().increment();
+      useStore.getState().increment();
+      useStore.getState().increment();
+      useStore.getState().setHover(true);
+      expect(controls.getHistory().map((state) => state.count)).toEqual([
+        2, 3, 4,
+      ]);
+
+      expect(controls.goToCheckpoint('one')).toBe(true);
+      expect(useStore.getState()).toMatchObject({ count: 1, hover: true });
+      expect(controls.getHistoryEntries().at(-1)).toMatchObject({
+        state: { count: 1 },
+        label: 'checkpoint: one',
+        meta: { checkpoint: 'one' },
+      });
+
+      // The restore entry can be undone like any other
+      controls.back();
+      expect(useStore.getState().count).toBe(4);
+    });
+
+    it('should survive rebase', () => {
+      const useStore = createCounter();
+      const controls = useStore.getControls();
+
+      controls.checkpoint('start');
+      useStore.getState().increment();
+      useStore.getState().increment();
+      controls.rebase();
+      expect(controls.getHistory()).toHaveLength(1);
+
+      controls.goToCheckpoint('start');
+      expect(useStore.getState().count).toBe(0);
+      expect(controls.getStatus()).toMatchObject({
+        position: 1,
+        historyLength: 1,
+      });
+    });
+
+    it('should list, replace, and remove checkpoints', () => {
+      const useStore = createCounter();
+      const controls = useStore.getControls();
+
+      controls.checkpoint('a');
+      useStore.getState().increment();
+      controls.checkpoint('b');
+      useStore.getState().increment();
+      controls.checkpoint('a');
+      expect(
+        controls.listCheckpoints().map(({ name, state }) => [name, state.count])
+      ).toEqual([
+        ['b', 1],
+        ['a', 2],
+      ]);
+
+      expect(controls.removeCheckpoint('b')).toBe(true);
+      expect(controls.removeCheckpoint('b')).toBe(false);
+      expect(controls.listCheckpoints().map(({ name }) => name)).toEqual(['a']);
+    });
+
+    it('should serialize and hydrate checkpoints', () => {
+      const first = createCounter();
+      first.getState().increment();
+      first.getControls().checkpoint('saved');
+      first.getState().increment();
+      const snapshot = JSON.parse(
+        JSON.stringify(first.getControls().serialize())
+      );
+      expect(snapshot.checkpoints).toHaveLength(1);
+
+      const second = createCounter();
+      const controls = second.getControls();
+      controls.hydrate(snapshot);
+      expect(controls.listCheckpoints()).toEqual(snapshot.checkpoints);
+      controls.goToCheckpoint('saved');
+      expect(second.getState().count).toBe(1);
+
+      expect(() =>
+        controls.hydrate({ ...snapshot, checkpoints: [{ name: 'bad' }] })
+      ).toThrow('Invalid checkpoints');
+      expect(controls.listCheckpoints()).toEqual(snapshot.checkpoints);
+      expect(second.getState().count).toBe(1);
+    });
+  });
+
+  describe('Branching', () => {
+    type State = {
+      text: string;
+      write: (text: string) => void;
+    };
+
+    const createEditor = (options: Parameters<typeof travel>[1] = {}) =>
+      create<State>()(
+        travel(
+          (set) => ({
+            text: '',
+            write: (text) => set({ text }, false, text),
+          }),
+          { branching: true, ...options }
+        )
+      );
+
+    it('should keep the redo entries as a branch', () => {
+      const useStore = createEditor();
+      const controls = useStore.getControls();
+
+      useStore.getState().write('a');
+      useStore.getState().write('ab');
+      useStore.getState().write('abc');
+      controls.back(2);
+      useStore.getState().write('ax');
+
+      expect(controls.getHistory().map(({ text }) => text)).toEqual([
+        '',
+        'a',
+        'ax',
+      ]);
+      const [main, branch] = controls.getBranches!();
+      expect(main).toMatchObject({
+        position: 0,
+        length: 3,
+        active: false,
+        label: 'abc',
+      });
+      expect(branch).toMatchObject({
+        position: 1,
+        length: 1,
+        active: true,
+        label: 'ax',
+      });
+
+      expect(controls.switchBranch!(main.id)).toBe(true);
+      expect(useStore.getState().text).toBe('abc');
+      expect(controls.getStatus()).toMatchObject({
+        position: 3,
+        historyLength: 3,
+        canForward: false,
+      });
+
+      // Undo and redo follow the active branch
+      controls.back();
+      expect(useStore.getState().text).toBe('ab');
+      controls.forward();
+      expect(useStore.getState().text).toBe('abc');
+
+      controls.switchBranch!(branch.id);
+      expect(useStore.getState().text).toBe('ax');
+      controls.back(2);
+      expect(useStore.getState().text).toBe('');
+      expect(controls.switchBranch!(-1)).toBe(false);
+    });
+
+    it('should describe the history tree', () => {
+      const useStore = createEditor();
+      const controls = useStore.getControls();
+
+      useStore.getState().write('a');
+      useStore.getState().write('ab');
+      controls.back();
+      useStore.getState().write('ax');
+      controls.back();
+
+      expect(describeNode(controls.getHistoryTree!())).toEqual({
+        label: undefined,
+        active: true,
+        current: false,
+        children: [
+          {
+            label: 'a',
+            active: true,
+            current: true,
+            children: [
+              { label: 'ab', active: false, current: false, children: [] },
+              { label: 'ax', active: true, current: false, children: [] },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should reuse an entry when the same edit is made again', () => {
+      const useStore = createEditor();
+      const controls = useStore.getControls();
+
+      useStore.getState().write('a');
+      controls.back();
+      useStore.getState().write('a');
+
+      expect(controls.getBranches!()).toHaveLength(1);
+      expect(controls.getStatus()).toMatchObject({
+        position: 1,
+        historyLength: 1,
+      });
+    });
+
+    it('should apply maxHistory to every branch together', () => {
+      const useStore = createEditor({ maxHistory: 3 });
+      const controls = useStore.getControls();
+
+      useStore.getState().write('a');
+      useStore.getState().write('ab');
+      controls.back();
+      useStore.getState().write('ax');
+      useStore.getState().write('axy');
+      // The oldest entry outside the current history goes first
+      expect(
+        controls.getBranches!().map(({ position, length }) => [
+          position,
+          length,
+        ])
+      ).toEqual([
+        [0, 1],
+        [1, 2],
+      ]);
+
+      useStore.getState().write('axyz');
+      expect(controls.getHistory().map(({ text }) => text)).toEqual([
+        'a',
+        'ax',
+        'axy',
+        'axyz',
+      ]);
+      controls.reset();
+      expect(useStore.getState().text).toBe('a');
+    });
+
+    it('should merge transactions and coalesced commits into one entry', () => {
+      vi.useFakeTimers();
+      try {
+        const useStore = createEditor({ coalesce: { windowMs: 100 } });
+        const controls = useStore.getControls();
+
+        useStore.getState().write('a');
+        useStore.getState().write('ab');
+        vi.advanceTimersByTime(200);
+        useStore.transaction(() => {
+          useStore.getState().write('abc');
+          useStore.getState().write('abcd');
+        });
+        controls.back();
+        useStore.getState().write('x');
+
+        expect(
+          controls.getBranches!().map(({ position, length }) => [
+            position,
+            length,
+          ])
+        ).toEqual([
+          [0, 2],
+          [1, 1],
+        ]);
+        controls.switchBranch!(controls.getBranches!()[0].id);
+        expect(controls.getHistory().map(({ text }) => text)).toEqual([
+          '',
+          'ab',
+          'abcd',
+        ]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should branch from an entry in manual archive mode', () => {
+      const useStore = createEditor({ autoArchive: false });
+      const controls = useStore.getControls();
+
+      useStore.getState().write('a');
+      controls.archive();
+      useStore.getState().write('ab');
+      controls.archive();
+      controls.back();
+      // The same edit reuses the entry, and the next one starts a branch
+      useStore.getState().write('ab');
+      useStore.getState().write('abc');
+      controls.archive();
+
+      expect(controls.getHistory().map(({ text }) => text)).toEqual([
+        '',
+        'a',
+        'abc',
+      ]);
+      controls.switchBranch!(controls.getBranches!()[0].id);
+      expect(controls.getHistory().map(({ text }) => text)).toEqual([
+        '',
+        'a',
+        'ab',
+      ]);
+    });
+
+    it('should start over after rebase', () => {
+      const useStore = createEditor();
+      const controls = useStore.getControls();
+
+      useStore.getState().write('a');
+      controls.back();
+      useStore.getState().write('b');
+      controls.rebase();
+
+      expect(controls.getBranches!()).toMatchObject([
+        { position: 0, length: 0, active: true },
+      ]);
+
+      const linear = create<{ count: number }>()(travel(() => ({ count: 0 })));
+      expect(linear.getControls().getBranches).toBeUndefined();
+    });
+  });
+
+  describe('Slices', () => {
+    type Doc = { title: string; body: string };
+    type State = {
+      theme: { dark: boolean };
+      documents: Record<string, Doc>;
+      count: number;
+      setTitle: (id: string, title: string) => void;
+      addDocument: (id: string) => void;
+      removeDocument: (id: string) => void;
+      toggleTheme: () => void;
+      increment: () => void;
+    };
+
+    const createWorkspace = (options: Parameters<typeof travel>[1] = {}) =>
+      create<State>()(
+        travel(
+          (set) => ({
+            theme: { dark: false },
+            documents: {
+              a: { title: 'A', body: '' },
+              b: { title: 'B', body: '' },
+            },
+            count: 0,
+            setTitle: (id, title) =>
+              set((state) => {
+                state.documents[id].title = title;
+              }),
+            addDocument: (id) =>
+              set((state) => {
+                state.documents[id] = { title: id, body: '' };
+              }),
+            removeDocument: (id) =>
+              set((state) => {
+                delete state.documents[id];
+              }),
+            toggleTheme: () =>
+              set((state) => {
+                state.theme.dark = !state.theme.dark;
+              }),
+            increment: () =>
+              set((state) => {
+                state.count += 1;
+              }),
+          }),
+          { slices: { theme: 'single', documents: 'entries' }, ...options }
+        )
+      );
+
+    it('should keep an undo stack per entry', () => {
+      const useStore = createWorkspace();
+      const docA = useStore.getControls('documents', 'a')!;
+      const docB = useStore.getControls('documents', 'b')!;
+
+      useStore.getState().setTitle('a', 'A1');
+      useStore.getState().setTitle('b', 'B1');
+      useStore.getState().setTitle('a', 'A2');
+
+      docA.back();
+      expect(useStore.getState().documents).toEqual({
+        a: { title: 'A1', body: '' },
+        b: { title: 'B1', body: '' },
+      });
+      docA.back();
+      expect(useStore.getState().documents.a.title).toBe('A');
+      expect(docA.canBack()).toBe(false);
+      expect(docB.getStatus()).toMatchObject({ position: 1, canBack: true });
+
+      docB.back();
+      expect(useStore.getState().documents.b.title).toBe('B');
+      docA.forward(2);
+      expect(useStore.getState().documents.a.title).toBe('A2');
+    });
+
+    it('should keep slices out of the store history', () => {
+      const useStore = createWorkspace();
+      const controls = useStore.getControls();
+
+      useStore.getState().increment();
+      useStore.getState().toggleTheme();
+      useStore.getState().setTitle('a', 'A1');
+      expect(controls.getHistory()).toEqual([{ count: 0 }, { count: 1 }]);
+
+      controls.back();
+      expect(useStore.getState()).toMatchObject({
+        count: 0,
+        theme: { dark: true },
+        documents: { a: { title: 'A1' } },
+      });
+
+      useStore.getControls('theme').back();
+      expect(useStore.getState()).toMatchObject({
+        count: 0,
+        theme: { dark: false },
+        documents: { a: { title: 'A1' } },
+      });
+    });
+
+    it('should create and release stacks as entries change', () => {
+      const useStore = createWorkspace();
+
+      expect(useStore.getControls('documents', 'c')).toBeUndefined();
+      useStore.getState().addDocument('c');
+      const docC = useStore.getControls('documents', 'c')!;
+      // A new entry starts with its added value as the baseline
+      expect(docC.getHistory()).toEqual([{ title: 'c', body: '' }]);
+
+      useStore.getState().setTitle('c', 'C1');
+      docC.back();
+      expect(useStore.getState().documents.c.title).toBe('c');
+
+      useStore.getState().removeDocument('c');
+      expect(useStore.getControls('documents', 'c')).toBeUndefined();
+      // The released stack no longer writes to the store
+      docC.forward();
+      expect(useStore.getState().documents).not.toHaveProperty('c');
+    });
+
+    it('should commit slices once per transaction', () => {
+      const useStore = createWorkspace();
+
+      useStore.transaction('Rename both', () => {
+        useStore.getState().setTitle('a', 'A1');
+        useStore.getState().setTitle('a', 'A2');
+        useStore.getState().setTitle('b', 'B1');
+      });
+
+      const docA = useStore.getControls('documents', 'a')!;
+      expect(docA.getHistoryEntries().map(({ label }) => label)).toEqual([
+        undefined,
+        'Rename both',
+      ]);
+      docA.back();
+      expect(useStore.getState().documents.a.title).toBe('A');
+      expect(useStore.getState().documents.b.title).toBe('B1');
+
+      expect(() =>
+        useStore.transaction(() => {
+          useStore.getState().setTitle('b', 'B2');
+          throw new Error('abort');
+        })
+      ).toThrow('abort');
+      expect(useStore.getState().documents.b.title).toBe('B1');
+      expect(useStore.getControls('documents', 'b')!.position).toBe(1);
+    });
+  });
+  describe('Selective Revert', () => {
+    type State = {
+      color: string;
+      size: number;
+      tags: string[];
+      setColor: (color: string) => void;
+      setSize: (size: number) => void;
+      addTag: (tag: string) => void;
+    };
+
+    const createShape = (options: Parameters<typeof travel>[1] = {}) =>
+      create<State>()(
+        travel(
+          (set) => ({
+            color: 'red',
+            size: 1,
+            tags: [],
+            setColor: (color) => set({ color }),
+            setSize: (size) => set({ size }),
+            addTag: (tag) =>
+              set((state) => {
+                state.tags.push(tag);
+              }),
+          }),
+          options
+        )
+      );
+
+    it('should undo one earlier entry and keep the later ones', () => {
+      const useStore = createShape();
+      const controls = useStore.getControls();
+
+      useStore.getState().setColor('blue');
+      useStore.getState().setSize(2);
+      useStore.getState().setSize(3);
+
+      expect(controls.revert(1)).toEqual({ ok: true });
+      expect(useStore.getState()).toMatchObject({ color: 'red', size: 3 });
+      expect(controls.position).toBe(4);
+      expect(controls.getHistoryEntries()[4]).toMatchObject({
+        label: 'revert: 1',
+        meta: { revert: 1 },
+      });
+
+      // The revert is an entry of its own
+      controls.back();
+      expect(useStore.getState()).toMatchObject({ color: 'blue', size: 3 });
+    });
+
+    it('should report later changes to the same data as conflicts', () => {
+      const useStore = createShape();
+      const controls = useStore.getControls();
+
+      useStore.getState().setColor('blue');
+      useStore.getState().setSize(2);
+      useStore.getState().setColor('green');
+
+      expect(controls.revert(1)).toEqual({
+        ok: false,
+        reason: 'conflict',
+        conflicts: [{ position: 3, path: ['color'] }],
+      });
+      expect(useStore.getState().color).toBe('green');
+      expect(controls.position).toBe(3);
+
+      // Reverting the latest entry never conflicts
+      expect(controls.revert(3)).toEqual({ ok: true });
+      expect(useStore.getState().color).toBe('blue');
+    });
+
+    it('should treat array insertions as changes to the whole array', () => {
+      const useStore = createShape();
+      const controls = useStore.getControls();
+
+      useStore.getState().addTag('a');
+      useStore.getState().setSize(2);
+      expect(controls.revert(1)).toEqual({ ok: true });
+      expect(useStore.getState()).toMatchObject({ tags: [], size: 2 });
+
+      useStore.getState().addTag('b');
+      useStore.getState().addTag('c');
+      expect(controls.revert(4)).toMatchObject({
+        ok: false,
+        reason: 'conflict',
+      });
+      expect(useStore.getState().tags).toEqual(['b', 'c']);
+    });
+
+    it('should reject positions that are not behind the cursor', () => {
+      const useStore = createShape();
+      const controls = useStore.getControls();
+
+      useStore.getState().setColor('blue');
+      useStore.getState().setSize(2);
+      controls.back();
+
+      for (const position of [0, 2, 1.5]) {
+        expect(controls.revert(position)).toEqual({
+          ok: false,
+          reason: 'out-of-range',
+        });
+      }
+      expect(controls.position).toBe(1);
+    });
+  });
+  describe('Async Transactions', () => {
+    type State = {
+      loading: boolean;
+      items: string[];
+      title: string;
+      setTitle: (title: string) => void;
+    };
+
+    const createList = () =>
+      create<State>()(
+        travel((set) => ({
+          loading: false,
+          items: [],
+          title: '',
+          setTitle: (title) => set({ title }),
+        }))
+      );
+
+    it('should record an async flow as one entry', async () => {
+      const useStore = createList();
+      const controls = useStore.getControls();
+      const response = createDeferred<string[]>();
+
+      const flow = useStore.asyncTransaction('Load items', async (set) => {
+        set({ loading: true });
+        const items = await response.promise;
+        set((state) => {
+          state.items = items;
+          state.loading = false;
+        });
+        return items.length;
+      });
+
+      // Updates show up right away, history waits for the flow
+      expect(useStore.getState().loading).toBe(true);
+      expect(controls.position).toBe(0);
+
+      response.resolve(['a', 'b']);
+      await expect(flow).resolves.toBe(2);
+      expect(useStore.getState()).toMatchObject({
+        loading: false,
+        items: ['a', 'b'],
+      });
+      expect(controls.position).toBe(1);
+      expect(controls.getHistoryEntries()[1].label).toBe('Load items');
+
+      controls.back();
+      expect(useStore.getState()).toMatchObject({ loading: false, items: [] });
+    });
+
+    it('should keep concurrent flows and edits in their own entries', async () => {
+      const useStore = createList();
+      const controls = useStore.getControls();
+      const first = createDeferred();
+      const second = createDeferred();
+
+      const flowA = useStore.asyncTransaction('A', async (set) => {
+        set((state) => {
+          state.items.push('a1');
+        });
+        await first.promise;
+        set((state) => {
+          state.items.push('a2');
+        });
+      });
+      const flowB = useStore.asyncTransaction('B', async (set) => {
+        set({ loading: true });
+        await second.promise;
+        set((state) => {
+          state.title += '!';
+        });
+      });
+      useStore.getState().setTitle('Edited');
+
+      expect(useStore.getState()).toMatchObject({
+        loading: true,
+        items: ['a1'],
+        title: 'Edited',
+      });
+      // Only the edit is in history so far
+      expect(controls.getHistory()[1]).toEqual({
+        loading: false,
+        items: [],
+        title: 'Edited',
+      });
+
+      second.resolve();
+      await flowB;
+      first.resolve();
+      await flowA;
+
+      expect(controls.getHistoryEntries().map(({ label }) => label)).toEqual([
+        undefined,
+        undefined,
+        'B',
+        'A',
+      ]);
+      expect(useStore.getState()).toMatchObject({
+        loading: true,
+        items: ['a1', 'a2'],
+        title: 'Edited!',
+      });
+
+      controls.back();
+      expect(useStore.getState()).toMatchObject({
+        loading: true,
+        items: [],
+        title: 'Edited!',
+      });
+    });
+
+    it('should roll back or keep a rejected flow', async () => {
+      const useStore = createList();
+      const controls = useStore.getControls();
+
+      await expect(
+        useStore.asyncTransaction(async (set) => {
+          set({ loading: true });
+          await Promise.resolve();
+          throw new Error('network');
+        })
+      ).rejects.toThrow('network');
+      expect(useStore.getState().loading).toBe(false);
+      expect(controls.position).toBe(0);
+
+      await expect(
+        useStore.asyncTransaction(
+          async (set) => {
+            set({ items: ['partial'] });
+            await Promise.resolve();
+            throw new Error('network');
+          },
+          { onError: 'keep' }
+        )
+      ).rejects.toThrow('network');
+      expect(useStore.getState().items).toEqual(['partial']);
+      expect(controls.position).toBe(1);
+    });
+
+    it('should let a later edit win over a running flow', async () => {
+      const useStore = createList();
+      const controls = useStore.getControls();
+      const response = createDeferred();
+      let flowSet!: (partial: Partial<State>) => void;
+
+      const flow = useStore.asyncTransaction(async (set) => {
+        flowSet = set;
+        set({ title: 'From flow', loading: true });
+        await response.promise;
+      });
+      useStore.getState().setTitle('From user');
+      expect(useStore.getState()).toMatchObject({
+        title: 'From user',
+        loading: true,
+      });
+
+      response.resolve();
+      await flow;
+      expect(useStore.getState()).toMatchObject({
+        title: 'From user',
+        loading: true,
+      });
+      expect(controls.getHistory()[2]).toMatchObject({
+        title: 'From user',
+        loading: true,
+      });
+
+      expect(() => flowSet({ loading: false })).toThrow(
+        'Cannot update state after its async transaction has finished'
+      );
+    });
+  });
+  describe('Nested Actions', () => {
+    type State = {
+      todos: {
+        items: string[];
+        add: (text: string) => void;
+        clear: () => void;
+      };
+      user: { name: string; rename: (name: string) => void };
+    };
+
+    const createSlices = (options: Parameters<typeof travel>[1] = {}) =>
+      create<State>()(
+        travel(
+          (set, get) => ({
+            todos: {
+              items: [],
+              add: (text) =>
+                set((state) => {
+                  state.todos.items.push(text);
+                }),
+              clear: () => set({ todos: { ...get().todos, items: [] } }),
+            },
+            user: {
+              name: 'Ada',
+              rename: (name) =>
+                set((state) => {
+                  state.user.name = name;
+                }),
+            },
+          }),
+          options
+        )
+      );
+
+    it('should keep nested actions out of history', () => {
+      const useStore = createSlices();
+      const controls = useStore.getControls();
+      const { add, clear } = useStore.getState().todos;
+
+      add('a');
+      useStore.getState().todos.clear();
+      expect(controls.getHistory()).toEqual([
+        { todos: { items: [] }, user: { name: 'Ada' } },
+        { todos: { items: ['a'] }, user: { name: 'Ada' } },
+        { todos: { items: [] }, user: { name: 'Ada' } },
+      ]);
+      expect(controls.serialize().state).toEqual({
+        todos: { items: [] },
+        user: { name: 'Ada' },
+      });
+
+      controls.back();
+      expect(useStore.getState().todos.items).toEqual(['a']);
+      expect(useStore.getState().todos.add).toBe(add);
+      expect(useStore.getState().todos.clear).toBe(clear);
+    });
+
+    it('should keep the reference of slices that did not change', () => {
+      const useStore = createSlices();
+      const { user } = useStore.getState();
+
+      useStore.getState().todos.add('a');
+      expect(useStore.getState().user).toBe(user);
+
+      useStore.getState().user.rename('Grace');
+      expect(useStore.getState().user).toMatchObject({ name: 'Grace' });
+      expect(useStore.getState().user.rename).toBe(user.rename);
+      expect(useStore.getControls().getHistory()[2]).toEqual({
+        todos: { items: ['a'] },
+        user: { name: 'Grace' },
+      });
+    });
+  });
+  describe('Navigation Guards', () => {
+    it('should cancel moves while a guard returns false', () => {
+      const useStore = createCounter();
+      const controls = useStore.getControls();
+      let isDirty = true;
+      const beforeTravel = vi.fn<(move: TravelMove) => boolean>(() => !isDirty);
+
+      useStore.getState().increment();
+      useStore.getState().increment();
+      const unguard = controls.guard(beforeTravel);
+
+      controls.back();
+      controls.go(0);
+      expect(controls.position).toBe(2);
+      expect(beforeTravel.mock.calls).toEqual([
+        [{ kind: 'back', from: 2, to: 1 }],
+        [{ kind: 'go', from: 2, to: 0 }],
+      ]);
+
+      isDirty = false;
+      controls.back(5);
+      expect(controls.position).toBe(0);
+      expect(beforeTravel).toHaveBeenLastCalledWith({
+        kind: 'back',
+        from: 2,
+        to: 0,
+      });
+
+      // Moves that stay in place do not ask
+      controls.back();
+      expect(beforeTravel).toHaveBeenCalledTimes(3);
+
+      isDirty = true;
+      unguard();
+      controls.forward();
+      expect(controls.position).toBe(1);
+    });
+
+    it('should run hooks from the options around every kind of move', () => {
+      const moves: string[] = [];
+      const useStore = createCounter({
+        beforeTravel: ({ kind }) => kind !== 'rebase',
+        afterTravel: ({ kind, from, to }) => {
+          moves.push(`${kind} ${from}->${to}`);
+        },
+      });
+      const controls = useStore.getControls();
+
+      useStore.getState().increment();
+      useStore.getState().increment();
+      controls.back();
+      controls.forward();
+      controls.rebase();
+      expect(controls.position).toBe(2);
+      controls.reset();
+
+      expect(useStore.getState().count).toBe(0);
+      expect(moves).toEqual(['back 2->1', 'forward 1->2', 'reset 2->0']);
+    });
+
+    it('should report a checkpoint move that a guard cancels', () => {
+      let isDirty = true;
+      const useStore = createCounter({ beforeTravel: () => !isDirty });
+      const controls = useStore.getControls();
+
+      controls.checkpoint('start');
+      useStore.getState().increment();
+      expect(controls.goToCheckpoint('start')).toBe(false);
+      expect(controls.position).toBe(1);
+
+      isDirty = false;
+      expect(controls.goToCheckpoint('start')).toBe(true);
+      expect(controls.position).toBe(0);
+    });
+  });
+  describe('History Diff', () => {
+    type Todo = { text: string; done: boolean };
+    type State = {
+      title: string;
+      todos: Todo[];
+      add: (text: string) => void;
+      toggle: (index: number) => void;
+      rename: (title: string) => void;
+    };
+
+    const createTodos = () =>
+      create<State>()(
+        travel((set) => ({
+          title: 'Inbox',
+          todos: [],
+          add: (text) =>
+            set((state) => {
+              state.todos.push({ text, done: false });
+            }),
+          toggle: (index) =>
+            set((state) => {
+              state.todos[index].done = !state.todos[index].done;
+            }),
+          rename: (title) => set({ title }),
+        }))
+      );
+
+    it('should list the net changes between two positions', () => {
+      const useStore = createTodos();
+      const controls = useStore.getControls();
+
+      useStore.getState().add('Write docs');
+      useStore.getState().toggle(0);
+      useStore.getState().rename('Today');
+
+      expect(controls.diff(0, 3)).toEqual([
+        {
+          type: 'added',
+          path: ['todos', 0],
+          newValue: { text: 'Write docs', done: true },
+        },
+        {
+          type: 'replaced',
+          path: ['title'],
+          oldValue: 'Inbox',
+          newValue: 'Today',
+        },
+      ]);
+      expect(controls.diff(3, 1)).toEqual([
+        {
+          type: 'replaced',
+          path: ['title'],
+          oldValue: 'Today',
+          newValue: 'Inbox',
+        },
+        {
+          type: 'replaced',
+          path: ['todos', 0, 'done'],
+          oldValue: true,
+          newValue: false,
+        },
+      ]);
+      expect(controls.diff(2, 2)).toEqual([]);
+
+      useStore.getState().toggle(0);
+      // Changes that cancel out are left out
+      expect(controls.diff(1, 4)).toEqual([
+        {
+          type: 'replaced',
+          path: ['title'],
+          oldValue: 'Inbox',
+          newValue: 'Today',
+        },
+      ]);
+
+      expect(() => controls.diff(0, 9)).toThrow(RangeError);
+    });
+
+    it('should format changes as text', () => {
+      const useStore = createTodos();
+      const controls = useStore.getControls();
+
+      useStore.getState().add('Write docs');
+      useStore.getState().rename('Today');
+      const changes = controls.diff(0, 2);
+
+      expect(formatDiff(changes)).toBe(
+        [
+          '+ todos.0: {"text":"Write docs","done":false}',
+          '~ title: "Inbox" -> "Today"',
+        ].join('\n')
+      );
+      expect(
+        formatDiff(changes, ({ type, path }) => `${type} ${path.join('/')}`)
+      ).toBe('added todos/0\nreplaced title');
+
+      useStore.getState().add('Review');
+      controls.back();
+      expect(formatDiff(controls.diff(3, 2))).toBe(
+        '- todos.1: {"text":"Review","done":false}'
+      );
+    });
+  });
+  describe('History Budget', () => {
+    type State = { text: string; edit: (text: string) => void };
+
+    const createEditor = (options: Parameters<typeof travel>[1] = {}) =>
+      create<State>()(
+        travel(
+          (set) => ({
+            text: '',
+            edit: (text) => set({ text }),
+          }),
+          options
+        )
+      );
+
+    it('should drop the oldest entries once the history is over budget', () => {
+      const onWarning = vi.fn<(warning: TravelsWarning) => void>();
+      const useStore = createEditor({
+        maxHistory: 100,
+        maxHistoryBytes: 30,
+        sizeOf: ({ patches }) => JSON.stringify(patches[0]?.value).length,
+        onWarning,
+      });
+      const controls = useStore.getControls();
+      const events: string[] = [];
+      controls.subscribe(({ type }) => events.push(type));
+
+      useStore.getState().edit('a'.repeat(8));
+      useStore.getState().edit('b'.repeat(8));
+      expect(controls.getHistoryUsage()).toEqual({
+        size: 20,
+        limit: 30,
+        entries: 2,
+      });
+      expect(onWarning).not.toHaveBeenCalled();
+
+      // A large paste pushes the small entries out
+      useStore.getState().edit('c'.repeat(18));
+      expect(controls.getHistoryUsage()).toEqual({
+        size: 30,
+        limit: 30,
+        entries: 2,
+      });
+      expect(events).toContain('trimHistory');
+      expect(onWarning).toHaveBeenCalledWith({
+        code: 'HISTORY_TRIMMED',
+        message: expect.stringContaining('Dropped the 1 oldest entry'),
+      });
+      expect(useStore.getState().text).toBe('c'.repeat(18));
+
+      controls.back(5);
+      expect(useStore.getState().text).toBe('a'.repeat(8));
+      controls.reset();
+      expect(useStore.getState().text).toBe('a'.repeat(8));
+    });
+
+    it('should trim restored history but keep its redo entries', () => {
+      const source = createEditor({ maxHistory: 100 });
+      for (const text of ['one', 'two', 'three']) {
+        source.getState().edit(text);
+      }
+      const { patches } = source.getControls().serialize();
+
+      const useStore = createEditor({
+        maxHistory: 100,
+        maxHistoryBytes: 0,
+        sizeOf: () => 1,
+        initialPatches: patches,
+        initialPosition: 2,
+        onWarning: () => {},
+      });
+      const controls = useStore.getControls();
+      expect(controls.getHistoryUsage()).toEqual({
+        size: 1,
+        limit: 0,
+        entries: 1,
+      });
+      expect(controls.position).toBe(0);
+      controls.forward();
+      expect(useStore.getState().text).toBe('three');
+
+      const unlimited = createEditor().getControls();
+      expect(unlimited.getHistoryUsage()).toEqual({
+        size: 0,
+        limit: undefined,
+        entries: 0,
+      });
+    });
+  });
+  describe('History Squash', () => {
+    it('should merge a range of entries into one undo step', () => {
+      const useStore = createCounter({ maxHistory: 100 });
+      const controls = useStore.getControls();
+      for (const label of ['one', 'two', 'three', 'four', 'five']) {
+        useStore.getState().add(1, label);
+      }
+      const events: string[] = [];
+      controls.subscribe(({ type }) => events.push(type));
+
+      controls.squash(1, 4);
+      expect(events).toEqual(['squash']);
+      expect(controls.position).toBe(3);
+      expect(controls.getHistory().map(({ count }) => count)).toEqual([
+        0, 1, 4, 5,
+      ]);
+      expect(controls.getHistoryEntries()[2]).toMatchObject({
+        label: 'two',
+        meta: { squashed: 3 },
+      });
+      expect(controls.getStatus()).toMatchObject({
+        position: 3,
+        historyLength: 3,
+        canBack: true,
+        canForward: false,
+      });
+
+      controls.back();
+      controls.back();
+      expect(useStore.getState().count).toBe(1);
+      controls.forward();
+      expect(useStore.getState().count).toBe(4);
+      controls.reset();
+      expect(useStore.getState().count).toBe(0);
+
+      expect(() => controls.squash(2, 2)).toThrow(RangeError);
+      expect(() => controls.squash(0, 4)).toThrow(RangeError);
+    });
+
+    it('should move a position inside the range to the merged entry', () => {
+      const useStore = createCounter({ maxHistory: 100 });
+      const controls = useStore.getControls();
+      for (let index = 0; index < 4; index += 1) {
+        useStore.getState().add(1);
+      }
+      controls.go(2);
+
+      controls.squash(0, 3, { label: 'Counted' });
+      expect(controls.position).toBe(1);
+      expect(useStore.getState().count).toBe(3);
+      expect(controls.getHistoryEntries()[1]).toMatchObject({
+        label: 'Counted',
+        meta: { squashed: 3 },
+      });
+      expect(controls.canForward()).toBe(true);
+      controls.forward();
+      expect(useStore.getState().count).toBe(4);
+    });
+
+    it('should compact old entries into groups after each commit', () => {
+      const useStore = createCounter({
+        maxHistory: 100,
+        compact: { after: 2, groupSize: 3 },
+      });
+      const controls = useStore.getControls();
+      for (let index = 0; index < 8; index += 1) {
+        useStore.getState().add(1);
+      }
+
+      // Entries 1-3 and 4-6 are old enough, 7 and 8 are recent
+      expect(controls.position).toBe(4);
+      expect(
+        controls
+          .getHistoryEntries()
+          .slice(1)
+          .map(({ meta }) => meta?.squashed)
+      ).toEqual([3, 3, undefined, undefined]);
+      expect(controls.getHistory().map(({ count }) => count)).toEqual([
+        0, 3, 6, 7, 8,
+      ]);
+
+      controls.back(4);
+      expect(useStore.getState().count).toBe(0);
+    });
+
+    it('should keep branches that leave the history outside the range', () => {
+      const useStore = createCounter({ maxHistory: 100, branching: true });
+      const controls = useStore.getControls();
+      useStore.getState().add(1, 'one');
+      useStore.getState().add(1, 'two');
+      controls.back();
+      useStore.getState().add(10, 'other');
+      expect(controls.getBranches!()).toHaveLength(2);
+
+      useStore.getState().add(1, 'three');
+      useStore.getState().add(1, 'four');
+      controls.squash(2, 4);
+      expect(controls.getBranches!()).toHaveLength(2);
+      expect(controls.getHistory().map(({ count }) => count)).toEqual([
+        0, 1, 11, 13,
+      ]);
+      controls.switchBranch!(controls.getBranches!()[0].id);
+      expect(useStore.getState().count).toBe(2);
+    });
+  });
+  describe('History Time', () => {
+    it('should stamp entries with the clock and go to a point in time', () => {
+      let now = 1000;
+      const useStore = createCounter({ maxHistory: 100, clock: () => now });
+      const controls = useStore.getControls();
+      for (const time of [1000, 2000, 3000]) {
+        now = time;
+        useStore.getState().increment();
+      }
+      expect(
+        controls.getHistoryEntries().map(({ timestamp }) => timestamp)
+      ).toEqual([undefined, 1000, 2000, 3000]);
+
+      controls.goToTime(2500);
+      expect(controls.position).toBe(2);
+      controls.goToTime(new Date(999));
+      expect(controls.position).toBe(0);
+      controls.goToTime(3000);
+      expect(useStore.getState().count).toBe(3);
+
+      expect(controls.checkpoint('saved').timestamp).toBe(3000);
+    });
+
+    it('should drop entries older than maxHistoryAge when committing', () => {
+      let now = 0;
+      const useStore = createCounter({
+        maxHistory: 100,
+        clock: () => now,
+        maxHistoryAge: 60_000,
+      });
+      const controls = useStore.getControls();
+      const events: string[] = [];
+      controls.subscribe(({ type }) => events.push(type));
+
+      useStore.getState().increment();
+      now = 30_000;
+      useStore.getState().increment();
+      now = 70_000;
+      useStore.getState().increment();
+
+      expect(events).toContain('trimHistory');
+      expect(
+        controls.getHistoryEntries().map(({ timestamp }) => timestamp)
+      ).toEqual([undefined, 30_000, 70_000]);
+      controls.reset();
+      expect(useStore.getState().count).toBe(1);
+    });
+  });
+  describe('Remote Changes', () => {
+    type Doc = {
+      title: string;
+      body: string;
+      edit: (
+        patch: Partial<Pick<Doc, 'title' | 'body'>>,
+        label: string
+      ) => void;
+    };
+
+    const createDoc = () =>
+      create<Doc>()(
+        travel((set) => ({
+          title: 'Draft',
+          body: '',
+          edit: (patch, label) => set(patch, false, label),
+        }))
+      );
+
+    // In-memory server that relays each client's changes to the others
+    const createFakeServer = () => {
+      const clients = new Set<ReturnType<typeof createDoc>>();
+      const reports: string[] = [];
+      let isRelaying = false;
+      return {
+        reports,
+        connect: (client: ReturnType<typeof createDoc>) => {
+          clients.add(client);
+          client.getControls().subscribe(({ patches }) => {
+            if (isRelaying || !patches.patches.length) return;
+            isRelaying = true;
+            try {
+              for (const other of clients) {
+                if (other === client) continue;
+                const { dropped } = other
+                  .getControls()
+                  .applyRemote(patches.patches.flat());
+                reports.push(...dropped.map(({ label }) => label!));
+              }
+            } finally {
+              isRelaying = false;
+            }
+          });
+        },
+      };
+    };
+
+    it('should keep local undo for data the remote change left alone', () => {
+      const server = createFakeServer();
+      const alice = createDoc();
+      const bob = createDoc();
+      server.connect(alice);
+      server.connect(bob);
+
+      bob.getState().edit({ body: 'Hello' }, 'Wrote body');
+      alice.getState().edit({ title: 'Plan' }, 'Renamed');
+      expect(bob.getState()).toMatchObject({ title: 'Plan', body: 'Hello' });
+
+      const controls = bob.getControls();
+      expect(controls.position).toBe(1);
+      controls.back();
+      expect(bob.getState()).toMatchObject({ title: 'Plan', body: '' });
+      expect(alice.getState().body).toBe('');
+      controls.forward();
+      expect(bob.getState()).toMatchObject({ title: 'Plan', body: 'Hello' });
+      expect(server.reports).toEqual([]);
+    });
+
+    it('should drop and report entries that touch the same data', () => {
+      const useStore = createDoc();
+      const controls = useStore.getControls();
+      useStore.getState().edit({ title: 'One' }, 'Renamed');
+      useStore.getState().edit({ body: 'Text' }, 'Wrote body');
+      useStore.getState().edit({ title: 'Two' }, 'Renamed again');
+      controls.back();
+      const events: string[] = [];
+      controls.subscribe(({ type }) => events.push(type));
+
+      const result = controls.applyRemote([
+        { op: 'replace', path: ['title'], value: 'Server' },
+      ]);
+      expect(result.dropped).toEqual([
+        { position: 1, label: 'Renamed', meta: expect.any(Object) },
+        { position: 3, label: 'Renamed again', meta: expect.any(Object) },
+      ]);
+      expect(events).toEqual(['applyRemote']);
+      expect(useStore.getState()).toMatchObject({
+        title: 'Server',
+        body: 'Text',
+      });
+      expect(controls.getStatus()).toMatchObject({
+        position: 1,
+        historyLength: 1,
+        canForward: false,
+      });
+
+      controls.back();
+      expect(useStore.getState()).toMatchObject({
+        title: 'Server',
+        body: '',
+      });
+    });
+  });
+  describe('Session Recording', () => {
+    type State = {
+      todos: { text: string; done: boolean }[];
+      add: (text: string) => void;
+      toggle: (index: number) => void;
+    };
+
+    const createTodos = (clock?: () => number) =>
+      create<State>()(
+        travel(
+          (set) => ({
+            todos: [],
+            add: (text) =>
+              set(
+                (state) => {
+                  state.todos.push({ text, done: false });
+                },
+                false,
+                `add ${text}`
+              ),
+            toggle: (index) =>
+              set(
+                (state) => {
+                  state.todos[index].done = !state.todos[index].done;
+                },
+                false,
+                'toggle'
+              ),
+          }),
+          { clock }
+        )
+      );
+
+    it('should record a session and replay it into a fresh store', () => {
+      let now = 0;
+      const source = createTodos(() => now);
+      const recorder = source.getControls().record();
+      source.getState().add('Docs');
+      now = 40;
+      source.getState().toggle(0);
+      now = 100;
+      source.getControls().back();
+      source.getState().add('Tests');
+      const recording = JSON.parse(JSON.stringify(recorder.stop()));
+      source.getState().add('Ignored');
+
+      expect(
+        recording.steps.map(({ type, label, time }: TravelRecordedStep) => [
+          type,
+          label,
+          time,
+        ])
+      ).toEqual([
+        ['setState', 'add Docs', 0],
+        ['setState', 'toggle', 40],
+        ['go', undefined, 100],
+        ['setState', 'add Tests', 100],
+      ]);
+
+      const target = createTodos();
+      const replay = target.getControls().replay(recording);
+      expect(replay.length).toBe(4);
+      expect(replay.step()).toBe(true);
+      expect(replay.step()).toBe(true);
+      expect(target.getState().todos).toEqual([{ text: 'Docs', done: true }]);
+
+      replay.seek(4);
+      expect(target.getState().todos).toEqual([
+        { text: 'Docs', done: false },
+        { text: 'Tests', done: false },
+      ]);
+      expect(replay.step()).toBe(false);
+      replay.seek(0);
+      expect(target.getState().todos).toEqual([]);
+      expect(replay.divergence).toBeUndefined();
+      expect(typeof target.getState().add).toBe('function');
+    });
+
+    it('should report a store that starts from another state', async () => {
+      const source = createTodos();
+      const recorder = source.getControls().record();
+      source.getState().add('Docs');
+      source.getState().add('Tests');
+      const recording = recorder.stop();
+      expect(recording.steps[0]).not.toHaveProperty('state');
+
+      const target = createTodos();
+      target.getState().add('Draft');
+      const replay = target.getControls().replay(recording);
+      expect(replay.divergence).toEqual({
+        path: ['todos', 0],
+        expected: undefined,
+        actual: { text: 'Draft', done: false },
+      });
+      expect(await replay.play({ speed: Infinity })).toBe(replay.divergence);
+      expect(replay.position).toBe(2);
+      // The recorded patches insert at the recorded indexes
+      expect(target.getState().todos.map(({ text }) => text)).toEqual([
+        'Docs',
+        'Tests',
+        'Draft',
+      ]);
+
+      expect(() => target.getControls().replay({ version: 2 } as any)).toThrow(
+        'Invalid recording'
+      );
+    });
+  });
 });
 
 it('test with persist middleware', async () => {
@@ -8,6 +8,7 @@ const require = createRequire(import.meta.url);
 const packageRoot = resolve(dirname(fileURLToPath(import.meta.url)), '..');
 const manifest = require(resolve(packageRoot, 'package.json'));
 const { createStore } = require('zustand/vanilla');
+const { createJSONStorage } = require('zustand/middleware');
 const ts = require('typescript');
 
 assert.equal(manifest.main, './dist/index.cjs');
@@ -22,10 +23,21 @@ assert.equal(
 const typeConsumerPath = resolve(packageRoot, '__package-type-consumer__.ts');
 const typeConsumerSource = `
 import type { TravelsWarning, TravelsWarningCode } from 'zustand-travel';
+import type { TravelStatus } from 'zustand-travel/react';
+import type { PersistTravelOptions } from 'zustand-travel/persist';
+import type { HistoryAssertions } from 'zustand-travel/testing';
 
 const code: TravelsWarningCode = 'POSITION_CLAMPED';
 const warning: TravelsWarning = { code, message: 'Position was clamped.' };
 void warning;
+const status: TravelStatus | undefined = undefined;
+void status;
+const persistOptions: PersistTravelOptions<{ count: number }> = {
+  name: 'counter',
+};
+void persistOptions;
+const assertions: HistoryAssertions | undefined = undefined;
+void assertions;
 `;
 const compilerOptions = {
   module: ts.ModuleKind.NodeNext,
@@ -66,6 +78,16 @@ assert.equal(
 const exercisePackage = (api, label) => {
   assert.equal(typeof api.travel, 'function', `${label} named export`);
   assert.equal(typeof api.default, 'function', `${label} default export`);
+  assert.equal(
+    typeof api.bindTravelShortcuts,
+    'function',
+    `${label} bindTravelShortcuts export`
+  );
+  assert.equal(
+    typeof api.connectDevtools,
+    'function',
+    `${label} connectDevtools export`
+  );
 
   const store = createStore(
     api.travel((set) => ({
@@ -83,10 +105,102 @@ const exercisePackage = (api, label) => {
   assert.equal(store.getState().count, 0, `${label} undo`);
 };
 
+const exerciseReactEntry = (api, label) => {
+  for (const hook of [
+    'useTravelStatus',
+    'useTravelControls',
+    'useCanUndo',
+    'useCanRedo',
+    'useHistoryPosition',
+    'useTravelShortcuts',
+  ]) {
+    assert.equal(typeof api[hook], 'function', `${label} ${hook} export`);
+  }
+};
+
+const exercisePersistEntry = (api, { travel }, label) => {
+  assert.equal(typeof api.persistTravel, 'function', `${label} export`);
+
+  const storageMap = new Map();
+  const storage = createJSONStorage(() => ({
+    getItem: (name) => storageMap.get(name) ?? null,
+    setItem: (name, value) => storageMap.set(name, value),
+    removeItem: (name) => storageMap.delete(name),
+  }));
+  const createCounter = () =>
+    createStore(
+      api.persistTravel(
+        travel((set) => ({
+          count: 0,
+          increment: () =>
+            set((state) => {
+              state.count += 1;
+            }),
+        })),
+        { name: 'counter', storage }
+      )
+    );
+
+  createCounter().getState().increment();
+  const store = createCounter();
+  assert.equal(store.getState().count, 1, `${label} hydrate`);
+  store.getControls().back();
+  assert.equal(store.getState().count, 0, `${label} undo after hydrate`);
+};
+
+const exerciseTestingEntry = (api, { travel }, label) => {
+  const useCounter = api.createTestStore(() =>
+    createStore(
+      travel((set) => ({
+        count: 0,
+        increment: () =>
+          set((state) => {
+            state.count += 1;
+          }),
+      }))
+    )
+  );
+
+  const store = useCounter();
+  store.getState().increment();
+  api.expectHistory(store).toHaveStates([{ count: 0 }, { count: 1 }]);
+  assert.equal(
+    api.travelMatchers.toBeAtPosition(store, 1).pass,
+    true,
+    `${label} travelMatchers`
+  );
+  assert.equal(api.undoAll(store), 1, `${label} undoAll`);
+  assert.equal(api.redoAll(store), 1, `${label} redoAll`);
+  useCounter.reset();
+  assert.notEqual(useCounter(), store, `${label} reset`);
+};
+
 exercisePackage(require(packageRoot), 'CommonJS legacy main entry');
 exercisePackage(require('zustand-travel'), 'CommonJS exports entry');
 exercisePackage(await import('zustand-travel'), 'ESM package entry');
+exerciseReactEntry(require('zustand-travel/react'), 'CommonJS react entry');
+exerciseReactEntry(await import('zustand-travel/react'), 'ESM react entry');
+exercisePersistEntry(
+  require('zustand-travel/persist'),
+  require('zustand-travel'),
+  'CommonJS persist entry'
+);
+exercisePersistEntry(
+  await import('zustand-travel/persist'),
+  await import('zustand-travel'),
+  'ESM persist entry'
+);
+exerciseTestingEntry(
+  require('zustand-travel/testing'),
+  require('zustand-travel'),
+  'CommonJS testing entry'
+);
+exerciseTestingEntry(
+  await import('zustand-travel/testing'),
+  await import('zustand-travel'),
+  'ESM testing entry'
+);
 
 console.log(
-  'Verified zustand-travel CommonJS, ESM, and TypeScript package entries.'
+  'Verified zustand-travel CommonJS, ESM, and TypeScript package entries, including the react, persist, and testing subpaths.'
 );
@@ -0,0 +1,247 @@
+import { describe, it, expect, vi } from 'vitest';
+import { create } from 'zustand';
+import { createJSONStorage } from 'zustand/middleware';
+import type { TravelsSerializedHistory } from 'travels';
+import { travel } from '../src/index';
+import { persistTravel, type PersistTravelOptions } from '../src/persist';
+
+type State = {
+  count: number;
+  hover: boolean;
+  increment: () => void;
+  setHover: (hover: boolean) => void;
+};
+
+const createStorage = () => {
+  const storageMap = new Map<string, string>();
+  const storage = createJSONStorage<TravelsSerializedHistory<State>>(() => ({
+    getItem: (name) => storageMap.get(name) ?? null,
+    setItem: (name, value) => {
+      storageMap.set(name, value);
+    },
+    removeItem: (name) => {
+      storageMap.delete(name);
+    },
+  }))!;
+  return { storage, storageMap };
+};
+
+const createCounter = (
+  options: PersistTravelOptions<State>,
+  travelOptions: Parameters<typeof travel>[1] = {}
+) =>
+  create<State>()(
+    persistTravel(
+      travel(
+        (set) => ({
+          count: 0,
+          hover: false,
+          increment: () =>
+            set((state) => {
+              state.count += 1;
+            }),
+          setHover: (hover) => set({ hover }),
+        }),
+        travelOptions
+      ),
+      options
+    )
+  );
+
+describe('Persistence', () => {
+  it('should restore state and history after a reload', () => {
+    const { storage, storageMap } = createStorage();
+    const first = createCounter({ name: 'counter', storage });
+
+    first.getState().increment();
+    first.getState().increment();
+    first.getState().increment();
+    first.getControls().back();
+
+    const stored = JSON.parse(storageMap.get('counter')!);
+    expect(stored.version).toBe(0);
+    expect(stored.state).toMatchObject({
+      version: 1,
+      state: { count: 2, hover: false },
+      position: 2,
+    });
+    expect(stored.state.patches.patches).toHaveLength(3);
+
+    const second = createCounter({ name: 'counter', storage });
+    const controls = second.getControls();
+
+    expect(second.getState().count).toBe(2);
+    expect(typeof second.getState().increment).toBe('function');
+    expect(controls.getStatus()).toMatchObject({
+      position: 2,
+      historyLength: 3,
+      canBack: true,
+      canForward: true,
+    });
+
+    controls.back();
+    expect(second.getState().count).toBe(1);
+    controls.forward(2);
+    expect(second.getState().count).toBe(3);
+
+    second.getState().increment();
+    expect(second.getState().count).toBe(4);
+    expect(JSON.parse(storageMap.get('counter')!).state.position).toBe(4);
+
+    // Like Travels.deserialize, reset returns to the state that was loaded
+    controls.reset();
+    expect(second.getState().count).toBe(2);
+  });
+
+  it('should persist checkpoints with the history', () => {
+    const { storage, storageMap } = createStorage();
+    const first = createCounter({ name: 'counter', storage });
+
+    first.getState().increment();
+    first.getControls().checkpoint('saved');
+    first.getState().increment();
+    expect(
+      JSON.parse(storageMap.get('counter')!).state.checkpoints
+    ).toMatchObject([{ name: 'saved', state: { count: 1 } }]);
+
+    const second = createCounter({ name: 'counter', storage });
+    expect(second.getControls().goToCheckpoint('saved')).toBe(true);
+    expect(second.getState().count).toBe(1);
+  });
+
+  it('should keep untracked fields out of the envelope', () => {
+    const { storage, storageMap } = createStorage();
+    const first = createCounter(
+      { name: 'counter', storage },
+      { exclude: ['hover'] }
+    );
+
+    first.getState().setHover(true);
+    first.getState().increment();
+    expect(JSON.parse(storageMap.get('counter')!).state.state).toEqual({
+      count: 1,
+    });
+
+    const second = createCounter(
+      { name: 'counter', storage },
+      { exclude: ['hover'] }
+    );
+    expect(second.getState()).toMatchObject({ count: 1, hover: false });
+  });
+
+  it('should hydrate from async storage and notify listeners', async () => {
+    const storageMap = new Map<string, string>();
+    const storage = createJSONStorage<TravelsSerializedHistory<State>>(() => ({
+      getItem: async (name) => storageMap.get(name) ?? null,
+      setItem: async (name, value) => {
+        storageMap.set(name, value);
+      },
+      removeItem: async (name) => {
+        storageMap.delete(name);
+      },
+    }))!;
+    storageMap.set(
+      'counter',
+      JSON.stringify({
+        state: {
+          version: 1,
+          state: { count: 2, hover: false },
+          patches: {
+            patches: [
+              [{ op: 'replace', path: ['count'], value: 1 }],
+              [{ op: 'replace', path: ['count'], value: 2 }],
+            ],
+            inversePatches: [
+              [{ op: 'replace', path: ['count'], value: 0 }],
+              [{ op: 'replace', path: ['count'], value: 1 }],
+            ],
+          },
+          position: 2,
+        },
+        version: 0,
+      })
+    );
+
+    const useStore = createCounter({ name: 'counter', storage });
+    const controls = useStore.getControls();
+    const listener = vi.fn<(event: { type: string }) => void>();
+    controls.subscribe(listener);
+
+    expect(useStore.getState().count).toBe(0);
+    expect(controls.getStatus().canBack).toBe(false);
+
+    await useStore.persist.rehydrate();
+
+    expect(useStore.getState().count).toBe(2);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'hydrate', position: 2 })
+    );
+    expect(controls.getStatus()).toMatchObject({
+      position: 2,
+      historyLength: 2,
+      canBack: true,
+    });
+
+    controls.back();
+    expect(useStore.getState().count).toBe(1);
+    expect(listener).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: 'go', position: 1 })
+    );
+  });
+
+  it('should report invalid history and keep the initial state', () => {
+    const { storage, storageMap } = createStorage();
+    storageMap.set(
+      'counter',
+      JSON.stringify({ state: { version: 1, state: { count: 5 } }, version: 0 })
+    );
+    const onError = vi.fn<(error: Error) => void>();
+    const onRehydrated = vi.fn<(state?: State, error?: unknown) => void>();
+
+    const useStore = createCounter({
+      name: 'counter',
+      storage,
+      deserialize: { onError },
+      onRehydrateStorage: () => onRehydrated,
+    });
+
+    expect(useStore.getState().count).toBe(0);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'INVALID_SCHEMA' })
+    );
+    expect(onRehydrated).toHaveBeenCalledWith(undefined, expect.any(Error));
+  });
+
+  it('should migrate envelopes from an older version', () => {
+    const { storage, storageMap } = createStorage();
+    storageMap.set(
+      'counter',
+      JSON.stringify({ state: { total: 7 }, version: 1 })
+    );
+
+    const useStore = createCounter({
+      name: 'counter',
+      storage,
+      version: 2,
+      migrate: (persisted) => ({
+        version: 1,
+        state: {
+          count: (persisted as { total: number }).total,
+          hover: false,
+        } as State,
+        patches: { patches: [], inversePatches: [] },
+        position: 0,
+      }),
+    });
+
+    expect(useStore.getState().count).toBe(7);
+    expect(JSON.parse(storageMap.get('counter')!)).toMatchObject({
+      state: { state: { count: 7 } },
+      version: 2,
+    });
+
+    useStore.getState().increment();
+    useStore.getControls().reset();
+    expect(useStore.getState().count).toBe(7);
+  });
+});
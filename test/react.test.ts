@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { create } from 'zustand';
+import { travel } from '../src/index';
+import {
+  useCanRedo,
+  useCanUndo,
+  useHistoryPosition,
+  useTravelControls,
+  useTravelStatus,
+} from '../src/react';
+
+const createCounter = (autoArchive = true) =>
+  create<{ count: number; hover: boolean; increment: () => void }>()(
+    travel(
+      (set) => ({
+        count: 0,
+        hover: false,
+        increment: () =>
+          set((state) => {
+            state.count += 1;
+          }),
+      }),
+      { autoArchive, exclude: ['hover'] }
+    )
+  );
+
+describe('React hooks', () => {
+  it('should re-render when history status changes', () => {
+    const useStore = createCounter();
+    const { result } = renderHook(() => useTravelControls(useStore));
+
+    expect(result.current).toMatchObject({
+      position: 0,
+      historyLength: 0,
+      canBack: false,
+      canForward: false,
+      canArchive: false,
+    });
+    expect(result.current.controls).toBe(useStore.getControls());
+
+    act(() => useStore.getState().increment());
+    expect(result.current).toMatchObject({
+      position: 1,
+      historyLength: 1,
+      canBack: true,
+      canForward: false,
+    });
+
+    act(() => result.current.controls.back());
+    expect(result.current).toMatchObject({
+      position: 0,
+      canBack: false,
+      canForward: true,
+    });
+  });
+
+  it('should only re-render when the selected value changes', () => {
+    const useStore = createCounter();
+    let renders = 0;
+    const { result } = renderHook(() => {
+      renders += 1;
+      return useCanUndo(useStore);
+    });
+
+    expect(result.current).toBe(false);
+    expect(renders).toBe(1);
+
+    act(() => useStore.getState().increment());
+    expect(result.current).toBe(true);
+    expect(renders).toBe(2);
+
+    act(() => useStore.getState().increment());
+    act(() => useStore.setState({ hover: true }));
+    expect(renders).toBe(2);
+  });
+
+  it('should expose redo and position hooks', () => {
+    const useStore = createCounter();
+    const { result } = renderHook(() => ({
+      canRedo: useCanRedo(useStore),
+      position: useHistoryPosition(useStore),
+    }));
+
+    act(() => {
+      useStore.getState().increment();
+      useStore.getState().increment();
+    });
+    expect(result.current).toEqual({ canRedo: false, position: 2 });
+
+    act(() => useStore.getControls().go(0));
+    expect(result.current).toEqual({ canRedo: true, position: 0 });
+  });
+
+  it('should report canArchive in manual archive mode', () => {
+    const useStore = createCounter(false);
+    const { result } = renderHook(() =>
+      useTravelStatus(useStore, (status) => status.canArchive)
+    );
+
+    expect(result.current).toBe(false);
+
+    act(() => useStore.getState().increment());
+    expect(result.current).toBe(true);
+
+    act(() => {
+      const controls = useStore.getControls();
+      if ('archive' in controls) controls.archive();
+    });
+    expect(result.current).toBe(false);
+  });
+
+  it('should keep selected objects that are equal', () => {
+    const useStore = createCounter();
+    const { result } = renderHook(() =>
+      useTravelStatus(
+        useStore,
+        (status) => ({ canBack: status.canBack }),
+        (a, b) => a.canBack === b.canBack
+      )
+    );
+    const first = result.current;
+
+    act(() => useStore.getState().increment());
+    const second = result.current;
+    expect(second).toEqual({ canBack: true });
+
+    act(() => useStore.getState().increment());
+    expect(result.current).toBe(second);
+    expect(first).not.toBe(second);
+  });
+
+  it('should select again when the selector changes', () => {
+    const useStore = createCounter();
+    act(() => useStore.getState().increment());
+    const { result, rerender } = renderHook(
+      ({ key }: { key: 'canBack' | 'canForward' }) =>
+        useTravelStatus(useStore, (status) => status[key]),
+      { initialProps: { key: 'canBack' as 'canBack' | 'canForward' } }
+    );
+
+    expect(result.current).toBe(true);
+    rerender({ key: 'canForward' });
+    expect(result.current).toBe(false);
+  });
+});
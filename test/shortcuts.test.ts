@@ -0,0 +1,160 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { create } from 'zustand';
+import { bindTravelShortcuts, travel } from '../src/index';
+import { useTravelShortcuts } from '../src/react';
+
+const createCounter = () =>
+  create<{ count: number; increment: () => void }>()(
+    travel((set) => ({
+      count: 0,
+      increment: () =>
+        set((state) => {
+          state.count += 1;
+        }),
+    }))
+  );
+
+const press = (
+  target: EventTarget,
+  key: string,
+  init: KeyboardEventInit & { keyCode?: number } = {}
+) => {
+  const event = new KeyboardEvent('keydown', {
+    key,
+    code: `Key${key.toUpperCase()}`,
+    bubbles: true,
+    cancelable: true,
+    ...init,
+  });
+  if (init.keyCode !== undefined) {
+    Object.defineProperty(event, 'keyCode', { value: init.keyCode });
+  }
+  target.dispatchEvent(event);
+  return event;
+};
+
+describe('Keyboard Shortcuts', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should undo and redo with Ctrl shortcuts', () => {
+    const useStore = createCounter();
+    const unbind = bindTravelShortcuts(useStore, { isMac: false });
+
+    useStore.getState().increment();
+    useStore.getState().increment();
+
+    const undo = press(window, 'z', { ctrlKey: true });
+    expect(undo.defaultPrevented).toBe(true);
+    expect(useStore.getState().count).toBe(1);
+
+    press(window, 'z', { ctrlKey: true });
+    expect(useStore.getState().count).toBe(0);
+
+    press(window, 'Z', { ctrlKey: true, shiftKey: true });
+    expect(useStore.getState().count).toBe(1);
+
+    press(window, 'y', { ctrlKey: true });
+    expect(useStore.getState().count).toBe(2);
+
+    // Nothing left to redo
+    press(window, 'y', { ctrlKey: true });
+    expect(useStore.getState().count).toBe(2);
+
+    unbind();
+    press(window, 'z', { ctrlKey: true });
+    expect(useStore.getState().count).toBe(2);
+  });
+
+  it('should use Cmd as the mod key on macOS', () => {
+    const useStore = createCounter();
+    const unbind = bindTravelShortcuts(useStore, { isMac: true });
+
+    useStore.getState().increment();
+
+    const ctrl = press(window, 'z', { ctrlKey: true });
+    expect(ctrl.defaultPrevented).toBe(false);
+    expect(useStore.getState().count).toBe(1);
+
+    press(window, 'z', { metaKey: true });
+    expect(useStore.getState().count).toBe(0);
+
+    press(window, 'z', { metaKey: true, shiftKey: true });
+    expect(useStore.getState().count).toBe(1);
+
+    unbind();
+  });
+
+  it('should leave editable elements and IME composition alone', () => {
+    const useStore = createCounter();
+    const unbind = bindTravelShortcuts(useStore, { isMac: false });
+    const input = document.createElement('input');
+    const editor = document.createElement('div');
+    editor.contentEditable = 'true';
+    // jsdom does not implement isContentEditable
+    Object.defineProperty(editor, 'isContentEditable', { value: true });
+    document.body.append(input, editor);
+
+    useStore.getState().increment();
+
+    const inInput = press(input, 'z', { ctrlKey: true });
+    expect(inInput.defaultPrevented).toBe(false);
+    press(editor, 'z', { ctrlKey: true });
+    press(window, 'z', { ctrlKey: true, isComposing: true });
+    press(window, 'z', { ctrlKey: true, keyCode: 229 });
+    expect(useStore.getState().count).toBe(1);
+
+    unbind();
+
+    const unbindAll = bindTravelShortcuts(useStore, {
+      isMac: false,
+      ignoreEditable: false,
+    });
+    press(input, 'z', { ctrlKey: true });
+    expect(useStore.getState().count).toBe(0);
+    unbindAll();
+  });
+
+  it('should support a custom keymap and target', () => {
+    const useStore = createCounter();
+    const panel = document.createElement('div');
+    document.body.append(panel);
+    const unbind = bindTravelShortcuts(useStore, {
+      target: panel,
+      isMac: false,
+      keymap: { undo: ['alt+u'], redo: ['alt+r'] },
+    });
+
+    useStore.getState().increment();
+
+    press(window, 'u', { altKey: true });
+    press(panel, 'z', { ctrlKey: true });
+    expect(useStore.getState().count).toBe(1);
+
+    press(panel, 'u', { altKey: true });
+    expect(useStore.getState().count).toBe(0);
+
+    // Non-Latin layouts report a different key but the same physical code
+    press(panel, 'к', { altKey: true, code: 'KeyR' });
+    expect(useStore.getState().count).toBe(1);
+
+    unbind();
+  });
+
+  it('should bind while a component using the hook is mounted', () => {
+    const useStore = createCounter();
+    const { unmount } = renderHook(() =>
+      useTravelShortcuts(useStore, { isMac: false })
+    );
+
+    useStore.getState().increment();
+    press(window, 'z', { ctrlKey: true });
+    expect(useStore.getState().count).toBe(0);
+
+    unmount();
+    press(window, 'y', { ctrlKey: true });
+    expect(useStore.getState().count).toBe(0);
+  });
+});
@@ -0,0 +1,165 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import { create } from 'zustand';
+import { travel } from '../src/index';
+import {
+  assertTravelInvariant,
+  createTestStore,
+  expectHistory,
+  redoAll,
+  travelMatchers,
+  undoAll,
+  watchTravelInvariant,
+  type TravelMatchers,
+} from '../src/testing';
+
+declare module 'vitest' {
+  interface Assertion<T> extends TravelMatchers<T> {}
+}
+
+expect.extend(travelMatchers);
+
+type State = {
+  count: number;
+  increment: () => void;
+};
+
+const createCounter = () =>
+  create<State>()(
+    travel((set) => ({
+      count: 0,
+      increment: () =>
+        set((state) => {
+          state.count += 1;
+        }),
+    }))
+  );
+
+describe('Testing Utilities', () => {
+  const useCounter = createTestStore(createCounter);
+
+  afterEach(useCounter.reset);
+
+  it('should create a fresh store after reset', () => {
+    const store = useCounter();
+    store.getState().increment();
+
+    expect(useCounter()).toBe(store);
+    useCounter.reset();
+    expect(useCounter()).not.toBe(store);
+    expect(useCounter().getState().count).toBe(0);
+  });
+
+  it('should assert the history of a store', () => {
+    const store = useCounter();
+    store.getState().increment();
+    store.getState().increment();
+    store.getControls().back();
+
+    expectHistory(store).toHaveStates([
+      { count: 0 },
+      { count: 1 },
+      { count: 2 },
+    ]);
+    expectHistory(store).toBeAt(1);
+    expectHistory(store).toHaveLength(2);
+    expectHistory(store).toBeAbleToUndo();
+    expectHistory(store).toBeAbleToRedo();
+    expect(() => expectHistory(store).toBeAt(2)).toThrow(
+      '[zustand-travel] Expected history to be at position 2, received 1'
+    );
+    expect(() => expectHistory(store).not.toBeAbleToRedo()).toThrow(
+      '[zustand-travel] Expected history not to be able to redo'
+    );
+  });
+
+  it('should assert the history through expect matchers', () => {
+    const store = useCounter();
+    store.getState().increment();
+
+    expect(store).toHaveHistoryStates([{ count: 0 }, { count: 1 }]);
+    expect(store).toBeAtPosition(1);
+    expect(store).toHaveHistoryLength(1);
+    expect(store).toBeAbleToUndo();
+    expect(store).not.toBeAbleToRedo();
+    expect(() => expect(store).toBeAbleToRedo()).toThrow(
+      '[zustand-travel] Expected history to be able to redo'
+    );
+    expect(() => expect(store).not.toBeAtPosition(1)).toThrow(
+      '[zustand-travel] Expected history not to be at position 1'
+    );
+  });
+
+  it('should not check the invariant while an async transaction runs', async () => {
+    const store = useCounter();
+    let resume: (() => void) | undefined;
+    const paused = new Promise<void>((resolve) => {
+      resume = resolve;
+    });
+
+    const flow = store.asyncTransaction(async (set) => {
+      set({ count: 5 });
+      await paused;
+      set({ count: 6 });
+    });
+    expect(store.getState().count).toBe(5);
+    expect(store.getControls().getPendingTransactionCount()).toBe(1);
+    assertTravelInvariant(store);
+
+    resume?.();
+    await flow;
+    expect(store.getControls().getPendingTransactionCount()).toBe(0);
+    expect(store).toHaveHistoryStates([{ count: 0 }, { count: 6 }]);
+  });
+
+  it('should undo and redo every entry', () => {
+    const store = useCounter();
+    store.getState().increment();
+    store.getState().increment();
+    store.getState().increment();
+
+    expect(undoAll(store)).toBe(3);
+    expect(store.getState().count).toBe(0);
+    expectHistory(store).not.toBeAbleToUndo();
+    expect(undoAll(store)).toBe(0);
+
+    expect(redoAll(store)).toBe(3);
+    expect(store.getState().count).toBe(3);
+    expectHistory(store).not.toBeAbleToRedo();
+  });
+
+  it('should report where the store drifts from the Travels state', () => {
+    const store = useCounter();
+    store.getState().increment();
+    assertTravelInvariant(store);
+
+    const drifted = {
+      ...store,
+      getState: () => ({ ...store.getState(), count: 5 }),
+    };
+    expect(() => assertTravelInvariant(drifted)).toThrow(
+      '[zustand-travel] Store state does not match the Travels state at count'
+    );
+
+    let listener: (() => void) | undefined;
+    const unwatch = watchTravelInvariant({
+      ...drifted,
+      subscribe: (next) => {
+        listener = next;
+        return () => {
+          listener = undefined;
+        };
+      },
+    });
+    expect(() => listener?.()).toThrow('at count');
+    unwatch();
+    expect(listener).toBeUndefined();
+  });
+
+  it('should reject stores created without travel', () => {
+    const store = create(() => ({ count: 0 }));
+
+    expect(() => undoAll(store as any)).toThrow(
+      '[zustand-travel] Expected a store created with the travel middleware'
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expectTypeOf, it } from 'vitest';
+import { create } from 'zustand';
+import type { StoreApi } from 'zustand/vanilla';
+import type { TravelMetadata } from 'travels';
+import { travel, type Controls } from '../src/index';
+
+type State = {
+  count: number;
+  increment: () => void;
+};
+
+const counter = (set: (fn: (state: State) => void) => void): State => ({
+  count: 0,
+  increment: () =>
+    set((state) => {
+      state.count += 1;
+    }),
+});
+
+describe('getControls types', () => {
+  it('should return auto archive controls by default', () => {
+    const useStore = create<State>()(travel((set) => counter(set)));
+    const controls = useStore.getControls();
+
+    expectTypeOf(controls).toEqualTypeOf<Controls<State, true>>();
+    expectTypeOf(controls.getHistory()).toEqualTypeOf<State[]>();
+    expectTypeOf(controls).not.toHaveProperty('archive');
+  });
+
+  it('should return manual archive controls with autoArchive: false', () => {
+    const useStore = create<State>()(
+      travel((set) => counter(set), { autoArchive: false })
+    );
+    const controls = useStore.getControls();
+
+    expectTypeOf(controls).toEqualTypeOf<Controls<State, false>>();
+    expectTypeOf(controls.archive).toEqualTypeOf<
+      (metadata?: TravelMetadata) => void
+    >();
+    expectTypeOf(controls.canArchive).toEqualTypeOf<() => boolean>();
+  });
+
+  it('should return both control types when autoArchive is a boolean', () => {
+    const autoArchive = Math.random() > 0.5;
+    const useStore = create<State>()(
+      travel((set) => counter(set), { autoArchive })
+    );
+
+    expectTypeOf(useStore.getControls()).toEqualTypeOf<
+      Controls<State, boolean>
+    >();
+  });
+
+  it('should carry the patchesOptions shape into the patches', () => {
+    const useStore = create<State>()(
+      travel((set) => counter(set), {
+        patchesOptions: { pathAsArray: false },
+      })
+    );
+    const { patches } = useStore.getControls().patches;
+
+    expectTypeOf(patches[0][0].path).toEqualTypeOf<string>();
+  });
+
+  it('should type slice controls by the slice value', () => {
+    type Documents = {
+      settings: { theme: string };
+      documents: Record<string, { title: string }>;
+    };
+    const useStore = create<Documents>()(
+      travel(() => ({ settings: { theme: 'light' }, documents: {} }), {
+        slices: { settings: 'single', documents: 'entries' },
+      })
+    );
+
+    expectTypeOf(useStore.getControls('settings').getHistory()).toEqualTypeOf<
+      { theme: string }[]
+    >();
+    expectTypeOf(useStore.getControls('documents', 'a')).toEqualTypeOf<
+      Controls<{ title: string }, true> | undefined
+    >();
+  });
+
+  it('should only accept keys of the slices option in their mode', () => {
+    type Documents = {
+      count: number;
+      settings: { theme: string };
+      documents: Record<string, { title: string }>;
+    };
+    const useStore = create<Documents>()(
+      travel(
+        () => ({ count: 0, settings: { theme: 'light' }, documents: {} }),
+        { slices: { settings: 'single', documents: 'entries' } }
+      )
+    );
+    const useCounter = create<State>()(travel((set) => counter(set)));
+
+    expectTypeOf(useStore.getControls('settings')).toEqualTypeOf<
+      Controls<{ theme: string }, true>
+    >();
+    // @ts-expect-error `count` has no undo stack of its own
+    useStore.getControls('count');
+    // @ts-expect-error `documents` needs an entry id
+    useStore.getControls('documents');
+    // @ts-expect-error `settings` takes no entry id
+    useStore.getControls('settings', 'a');
+    // @ts-expect-error the store has no slices
+    useCounter.getControls('count');
+  });
+
+  it('should keep getControls optional on plain stores', () => {
+    expectTypeOf<StoreApi<State>['getControls']>().toEqualTypeOf<
+      (() => Controls<State, boolean>) | undefined
+    >();
+  });
+});
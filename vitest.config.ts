@@ -4,6 +4,11 @@ export default defineConfig({
   test: {
     globals: true,
     environment: 'jsdom',
+    typecheck: {
+      enabled: true,
+      include: ['test/**/*.test-d.ts'],
+      tsconfig: './test/tsconfig.json',
+    },
     coverage: {
       provider: 'v8',
       reporter: ['text', 'lcov'],